@@ -0,0 +1,117 @@
+/**
+ * @radiantblockchain/constants - Addresses
+ *
+ * Base58Check P2PKH and P2SH addresses, using the version bytes in
+ * `NetworkParams`. Testnet and regtest share version bytes, so an address
+ * alone cannot tell them apart; `decodeAddress` reports every matching
+ * registered network instead of guessing.
+ */
+
+import { Limits } from './limits';
+import { base58CheckEncode, base58CheckDecode } from './encoding';
+import { mainnet, getNetworks } from './networks';
+import type { NetworkParams } from './networks';
+
+/**
+ * Address types
+ */
+export const AddressType = {
+  P2PKH: 'p2pkh',
+  P2SH: 'p2sh',
+} as const;
+
+export type AddressTypeName = (typeof AddressType)[keyof typeof AddressType];
+
+/**
+ * A decoded address
+ */
+export interface DecodedAddress {
+  /** 20-byte public key hash or script hash */
+  hash: Uint8Array;
+  type: AddressTypeName;
+  /** The network, when exactly one network uses this version byte */
+  network?: NetworkParams;
+  /** Every network that uses this version byte */
+  networks: NetworkParams[];
+  /** True when more than one network matches (e.g. testnet and regtest) */
+  ambiguous: boolean;
+}
+
+function getVersion(type: AddressTypeName, network: NetworkParams): number {
+  switch (type) {
+    case AddressType.P2PKH:
+      return network.pubKeyHash;
+    case AddressType.P2SH:
+      return network.scriptHash;
+    default:
+      throw new Error(`Unknown address type: "${type}"`);
+  }
+}
+
+/**
+ * Encode a hash160 as a Base58Check address
+ * @throws Error if the hash is not 20 bytes
+ */
+export function encodeAddress(
+  hash: Uint8Array,
+  type: AddressTypeName = AddressType.P2PKH,
+  network: NetworkParams = mainnet
+): string {
+  if (hash.length !== Limits.HASH160_SIZE) {
+    throw new Error(`Address hash must be ${Limits.HASH160_SIZE} bytes, got ${hash.length}`);
+  }
+  const payload = new Uint8Array(1 + Limits.HASH160_SIZE);
+  payload[0] = getVersion(type, network);
+  payload.set(hash, 1);
+  return base58CheckEncode(payload);
+}
+
+/**
+ * Decode a Base58Check address. When `network` is given the address must
+ * belong to it, which also resolves the testnet/regtest ambiguity.
+ * @throws Error describing why the address is invalid
+ */
+export function decodeAddress(address: string, network?: NetworkParams): DecodedAddress {
+  const payload = base58CheckDecode(address);
+  if (payload.length !== 1 + Limits.HASH160_SIZE) {
+    throw new Error(`Invalid address length: expected ${1 + Limits.HASH160_SIZE} bytes, got ${payload.length}`);
+  }
+
+  const version = payload[0];
+  const candidates = network ? [network] : getNetworks();
+  const networks = candidates.filter(n => n.pubKeyHash === version || n.scriptHash === version);
+  if (networks.length === 0) {
+    const hex = version.toString(16).padStart(2, '0');
+    throw new Error(network
+      ? `Address version 0x${hex} does not belong to ${network.name}`
+      : `Unknown address version: 0x${hex}`);
+  }
+
+  const decoded: DecodedAddress = {
+    hash: payload.slice(1),
+    type: networks[0].pubKeyHash === version ? AddressType.P2PKH : AddressType.P2SH,
+    networks,
+    ambiguous: networks.length > 1,
+  };
+  if (networks.length === 1) decoded.network = networks[0];
+  return decoded;
+}
+
+/**
+ * Validate an address, optionally for a specific network
+ */
+export function validateAddress(address: string, network?: NetworkParams): { valid: boolean; error?: string } {
+  try {
+    decodeAddress(address, network);
+    return { valid: true };
+  } catch (err) {
+    return { valid: false, error: (err as Error).message };
+  }
+}
+
+export default {
+  AddressType,
+  encodeAddress,
+  decodeAddress,
+  validateAddress,
+};
@@ -0,0 +1,336 @@
+/**
+ * @radiantblockchain/constants - BIP32 Extended Keys
+ *
+ * Serialization of xpub/xprv extended keys using the `xpubkey` / `xprivkey`
+ * version bytes in `NetworkParams`. Testnet and regtest share version bytes,
+ * so `decodeExtendedKey` reports every matching network.
+ *
+ * Reference: BIP32 (Serialization format, Key derivation), BIP44
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha2';
+import { Limits } from './limits';
+import { base58CheckEncode, base58CheckDecode, bytesToHex } from './encoding';
+import { hash160 } from './crypto';
+import { PRIVATE_KEY_SIZE, SECP256K1_ORDER, isValidPrivateKey, getPublicKey } from './keys';
+import { AddressType, encodeAddress } from './address';
+import { mainnet, getNetworks } from './networks';
+import type { NetworkParams } from './networks';
+
+/**
+ * Size of a serialized extended key before Base58Check (78 bytes)
+ */
+export const EXTENDED_KEY_SIZE = 78;
+
+/**
+ * Size of an extended key chain code (32 bytes)
+ */
+export const CHAIN_CODE_SIZE = 32;
+
+/**
+ * Child indexes at or above this value are hardened
+ */
+export const HARDENED_OFFSET = 0x80000000;
+
+/** HMAC key used to derive master keys from a seed */
+const MASTER_KEY_HMAC_KEY = new TextEncoder().encode('Bitcoin seed');
+
+/**
+ * An extended key
+ */
+export interface ExtendedKey {
+  /** True for xprv, false for xpub */
+  isPrivate: boolean;
+  /** 0 for the master key */
+  depth: number;
+  /** First 4 bytes of the parent's hash160(pubKey), as a big-endian integer */
+  parentFingerprint: number;
+  /** Index of this key within its parent (hardened when >= HARDENED_OFFSET) */
+  childIndex: number;
+  chainCode: Uint8Array;
+  /** 32-byte private key or 33-byte compressed public key */
+  key: Uint8Array;
+}
+
+/**
+ * A decoded extended key
+ */
+export interface DecodedExtendedKey extends ExtendedKey {
+  /** The network, when exactly one network uses this version */
+  network?: NetworkParams;
+  /** Every network that uses this version */
+  networks: NetworkParams[];
+  /** True when more than one network matches (e.g. testnet and regtest) */
+  ambiguous: boolean;
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32BE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+function validateExtendedKey(key: ExtendedKey): void {
+  if (!Number.isInteger(key.depth) || key.depth < 0 || key.depth > 0xff) {
+    throw new Error(`Invalid extended key depth: ${key.depth}`);
+  }
+  for (const [field, value] of [['parent fingerprint', key.parentFingerprint], ['child index', key.childIndex]] as const) {
+    if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+      throw new Error(`Invalid extended key ${field}: ${value}`);
+    }
+  }
+  if (key.depth === 0 && (key.parentFingerprint !== 0 || key.childIndex !== 0)) {
+    throw new Error('Master extended key must have a zero parent fingerprint and child index');
+  }
+  if (key.chainCode.length !== CHAIN_CODE_SIZE) {
+    throw new Error(`Chain code must be ${CHAIN_CODE_SIZE} bytes, got ${key.chainCode.length}`);
+  }
+  if (key.isPrivate) {
+    if (!isValidPrivateKey(key.key)) {
+      throw new Error('Extended private key must be 32 bytes in the range [1, n-1]');
+    }
+  } else {
+    if (key.key.length !== Limits.COMPRESSED_PUBKEY_SIZE || (key.key[0] !== 0x02 && key.key[0] !== 0x03)) {
+      throw new Error('Extended public key must be a 33-byte compressed public key');
+    }
+    try {
+      secp256k1.ProjectivePoint.fromHex(key.key);
+    } catch {
+      throw new Error('Extended public key is not on the secp256k1 curve');
+    }
+  }
+}
+
+/**
+ * Serialize an extended key as an xpub/xprv string
+ * @throws Error if any field is out of range
+ */
+export function encodeExtendedKey(key: ExtendedKey, network: NetworkParams = mainnet): string {
+  validateExtendedKey(key);
+  const bytes = new Uint8Array(EXTENDED_KEY_SIZE);
+  writeUint32BE(bytes, 0, key.isPrivate ? network.xprivkey : network.xpubkey);
+  bytes[4] = key.depth;
+  writeUint32BE(bytes, 5, key.parentFingerprint);
+  writeUint32BE(bytes, 9, key.childIndex);
+  bytes.set(key.chainCode, 13);
+  // Private keys are padded with a leading zero byte to 33 bytes
+  bytes.set(key.key, key.isPrivate ? 46 : 45);
+  return base58CheckEncode(bytes);
+}
+
+/**
+ * Parse an xpub/xprv string. When `network` is given the key must belong to it.
+ * @throws Error describing why the key is invalid, including a public version
+ * with private key data and vice versa
+ */
+export function decodeExtendedKey(str: string, network?: NetworkParams): DecodedExtendedKey {
+  const bytes = base58CheckDecode(str);
+  if (bytes.length !== EXTENDED_KEY_SIZE) {
+    throw new Error(`Invalid extended key length: expected ${EXTENDED_KEY_SIZE} bytes, got ${bytes.length}`);
+  }
+
+  const version = readUint32BE(bytes, 0);
+  const candidates = network ? [network] : getNetworks();
+  const networks = candidates.filter(n => n.xpubkey === version || n.xprivkey === version);
+  if (networks.length === 0) {
+    const hex = version.toString(16).padStart(8, '0');
+    throw new Error(network
+      ? `Extended key version 0x${hex} does not belong to ${network.name}`
+      : `Unknown extended key version: 0x${hex}`);
+  }
+
+  const isPrivate = networks[0].xprivkey === version;
+  const keyData = bytes.slice(45);
+  if (isPrivate && keyData[0] !== 0x00) {
+    throw new Error('Private extended key version with public key data');
+  }
+  if (!isPrivate && keyData[0] === 0x00) {
+    throw new Error('Public extended key version with private key data');
+  }
+
+  const decoded: DecodedExtendedKey = {
+    isPrivate,
+    depth: bytes[4],
+    parentFingerprint: readUint32BE(bytes, 5),
+    childIndex: readUint32BE(bytes, 9),
+    chainCode: bytes.slice(13, 45),
+    key: isPrivate ? keyData.slice(1, 1 + PRIVATE_KEY_SIZE) : keyData,
+    networks,
+    ambiguous: networks.length > 1,
+  };
+  validateExtendedKey(decoded);
+  if (networks.length === 1) decoded.network = networks[0];
+  return decoded;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + (bytesToHex(bytes) || '0'));
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  const hex = value.toString(16).padStart(PRIVATE_KEY_SIZE * 2, '0');
+  return Uint8Array.from({ length: PRIVATE_KEY_SIZE }, (_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+}
+
+/**
+ * Get the compressed public key of an extended key
+ */
+export function getExtendedPublicKey(key: ExtendedKey): Uint8Array {
+  return key.isPrivate ? getPublicKey(key.key) : key.key;
+}
+
+/**
+ * Get the fingerprint of an extended key (first 4 bytes of hash160(pubKey))
+ */
+export function getFingerprint(key: ExtendedKey): number {
+  return readUint32BE(hash160(getExtendedPublicKey(key)), 0);
+}
+
+/**
+ * Convert an extended private key to its extended public key
+ */
+export function toPublicExtendedKey(key: ExtendedKey): ExtendedKey {
+  return {
+    isPrivate: false,
+    depth: key.depth,
+    parentFingerprint: key.parentFingerprint,
+    childIndex: key.childIndex,
+    chainCode: key.chainCode,
+    key: getExtendedPublicKey(key),
+  };
+}
+
+/**
+ * Derive the master extended private key from a 16-64 byte seed
+ * @throws Error if the seed length is out of range or yields an invalid key
+ */
+export function createMasterKey(seed: Uint8Array): ExtendedKey {
+  if (seed.length < 16 || seed.length > 64) {
+    throw new Error(`Seed must be 16-64 bytes, got ${seed.length}`);
+  }
+  const I = hmac(sha512, MASTER_KEY_HMAC_KEY, seed);
+  const key = I.slice(0, 32);
+  if (!isValidPrivateKey(key)) {
+    throw new Error('Seed produces an invalid master key');
+  }
+  return { isPrivate: true, depth: 0, parentFingerprint: 0, childIndex: 0, chainCode: I.slice(32), key };
+}
+
+/**
+ * Derive a child key. Private keys derive private children; public keys
+ * derive public children and cannot derive hardened indexes.
+ * @throws Error for hardened public derivation, depth overflow or the
+ * (negligibly rare) invalid child, in which case the next index should be used
+ */
+export function deriveChild(parent: ExtendedKey, index: number): ExtendedKey {
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new Error(`Invalid child index: ${index}`);
+  }
+  if (parent.depth >= 0xff) {
+    throw new Error('Maximum derivation depth exceeded');
+  }
+  const hardened = index >= HARDENED_OFFSET;
+  if (hardened && !parent.isPrivate) {
+    throw new Error('Cannot derive a hardened child from a public key');
+  }
+
+  const parentPublicKey = getExtendedPublicKey(parent);
+  const data = new Uint8Array(37);
+  if (hardened) {
+    data.set(parent.key, 1);
+  } else {
+    data.set(parentPublicKey);
+  }
+  writeUint32BE(data, 33, index);
+
+  const I = hmac(sha512, parent.chainCode, data);
+  const tweak = bytesToBigInt(I.slice(0, 32));
+  if (tweak >= SECP256K1_ORDER) {
+    throw new Error(`Invalid child at index ${index}`);
+  }
+
+  let key: Uint8Array;
+  if (parent.isPrivate) {
+    const child = (bytesToBigInt(parent.key) + tweak) % SECP256K1_ORDER;
+    if (child === 0n) throw new Error(`Invalid child at index ${index}`);
+    key = bigIntToBytes(child);
+  } else {
+    const point = secp256k1.Point.fromBytes(parent.key);
+    const child = tweak === 0n ? point : secp256k1.Point.BASE.multiply(tweak).add(point);
+    if (child.is0()) throw new Error(`Invalid child at index ${index}`);
+    key = child.toBytes(true);
+  }
+
+  return {
+    isPrivate: parent.isPrivate,
+    depth: parent.depth + 1,
+    parentFingerprint: readUint32BE(hash160(parentPublicKey), 0),
+    childIndex: index,
+    chainCode: I.slice(32),
+    key,
+  };
+}
+
+/**
+ * Parse a derivation path such as `m/44'/512'/0'/0/0` into child indexes.
+ * Hardened steps may be marked with `'`, `h` or `H`.
+ * @throws Error if a step is empty or not a valid index
+ */
+export function parseDerivationPath(path: string): { absolute: boolean; indexes: number[] } {
+  const trimmed = path.trim();
+  const absolute = /^[mM](\/|$)/.test(trimmed);
+  const rest = absolute ? trimmed.slice(2) : trimmed;
+  // Only `m` and the empty relative path have no steps; `m/`, `m//0` and `m/0/` are invalid
+  if (trimmed.length === (absolute ? 1 : 0)) return { absolute, indexes: [] };
+
+  const indexes = rest.split('/').map(step => {
+    const match = /^(\d+)(['hH]?)$/.exec(step);
+    if (!match || Number(match[1]) >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path step: "${step}"`);
+    }
+    return Number(match[1]) + (match[2] ? HARDENED_OFFSET : 0);
+  });
+  return { absolute, indexes };
+}
+
+/**
+ * Derive a key along a path. Paths starting with `m` must be applied to a
+ * master key; paths without it are relative to `key`.
+ */
+export function derivePath(key: ExtendedKey, path: string): ExtendedKey {
+  const { absolute, indexes } = parseDerivationPath(path);
+  if (absolute && key.depth !== 0) {
+    throw new Error(`Absolute path "${path}" requires a master key, got depth ${key.depth}`);
+  }
+  return indexes.reduce(deriveChild, key);
+}
+
+/**
+ * Get the P2PKH address of an extended key
+ */
+export function getExtendedKeyAddress(key: ExtendedKey, network: NetworkParams = mainnet): string {
+  return encodeAddress(hash160(getExtendedPublicKey(key)), AddressType.P2PKH, network);
+}
+
+export default {
+  EXTENDED_KEY_SIZE,
+  CHAIN_CODE_SIZE,
+  HARDENED_OFFSET,
+  encodeExtendedKey,
+  decodeExtendedKey,
+  getExtendedPublicKey,
+  getFingerprint,
+  toPublicExtendedKey,
+  createMasterKey,
+  deriveChild,
+  parseDerivationPath,
+  derivePath,
+  getExtendedKeyAddress,
+};
@@ -0,0 +1,68 @@
+/**
+ * @radiantblockchain/constants - Hash Functions
+ *
+ * The hash functions exposed by Radiant script opcodes and used for
+ * txids, addresses and reference summaries.
+ */
+
+import { sha256 as nobleSha256, sha512_256 as nobleSha512_256 } from '@noble/hashes/sha2';
+import { ripemd160 as nobleRipemd160, sha1 as nobleSha1 } from '@noble/hashes/legacy';
+
+/**
+ * SHA-256 (OP_SHA256)
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  return nobleSha256(data);
+}
+
+/**
+ * Double SHA-256 (OP_HASH256)
+ */
+export function hash256(data: Uint8Array): Uint8Array {
+  return nobleSha256(nobleSha256(data));
+}
+
+/**
+ * RIPEMD-160 (OP_RIPEMD160)
+ */
+export function ripemd160(data: Uint8Array): Uint8Array {
+  return nobleRipemd160(data);
+}
+
+/**
+ * RIPEMD-160 of SHA-256 (OP_HASH160)
+ */
+export function hash160(data: Uint8Array): Uint8Array {
+  return nobleRipemd160(nobleSha256(data));
+}
+
+/**
+ * SHA-1 (OP_SHA1)
+ */
+export function sha1(data: Uint8Array): Uint8Array {
+  return nobleSha1(data);
+}
+
+/**
+ * SHA-512/256 (OP_SHA512_256)
+ */
+export function sha512_256(data: Uint8Array): Uint8Array {
+  return nobleSha512_256(data);
+}
+
+/**
+ * Double SHA-512/256 (OP_HASH512_256)
+ */
+export function hash512_256(data: Uint8Array): Uint8Array {
+  return nobleSha512_256(nobleSha512_256(data));
+}
+
+export default {
+  sha256,
+  hash256,
+  ripemd160,
+  hash160,
+  sha1,
+  sha512_256,
+  hash512_256,
+};
@@ -0,0 +1,133 @@
+/**
+ * @radiantblockchain/constants - Encoding
+ *
+ * Byte/string encoding helpers shared by the script and transaction tooling.
+ */
+
+import { hash256 } from './crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_CHECKSUM_SIZE = 4;
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Decode a hex string into bytes
+ * @throws Error if the string is not valid hex
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) {
+    throw new Error(`Hex string has odd length: ${hex.length}`);
+  }
+  if (!/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error(`Invalid hex string: "${hex}"`);
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Check if two byte arrays are equal
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Encode bytes as Base58 (leading zero bytes become '1')
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  return '1'.repeat(zeros) + encoded;
+}
+
+/**
+ * Decode a Base58 string into bytes
+ * @throws Error if the string contains a character outside the Base58 alphabet
+ */
+export function base58Decode(str: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < str.length && str[zeros] === '1') zeros++;
+
+  let value = 0n;
+  for (let i = 0; i < str.length; i++) {
+    const digit = BASE58_ALPHABET.indexOf(str[i]);
+    if (digit === -1) {
+      throw new Error(`Invalid Base58 character "${str[i]}" at position ${i}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const body: number[] = [];
+  while (value > 0n) {
+    body.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  return new Uint8Array([...new Array(zeros).fill(0), ...body]);
+}
+
+/**
+ * Encode a payload as Base58Check (payload followed by the first 4 bytes of its hash256)
+ */
+export function base58CheckEncode(payload: Uint8Array): string {
+  const checksum = hash256(payload).slice(0, BASE58_CHECKSUM_SIZE);
+  const bytes = new Uint8Array(payload.length + BASE58_CHECKSUM_SIZE);
+  bytes.set(payload);
+  bytes.set(checksum, payload.length);
+  return base58Encode(bytes);
+}
+
+/**
+ * Decode a Base58Check string and return its payload
+ * @throws Error if the string is not Base58 or the checksum does not match
+ */
+export function base58CheckDecode(str: string): Uint8Array {
+  const bytes = base58Decode(str);
+  if (bytes.length < BASE58_CHECKSUM_SIZE) {
+    throw new Error(`Base58Check string too short: ${bytes.length} bytes`);
+  }
+  const payload = bytes.slice(0, -BASE58_CHECKSUM_SIZE);
+  const checksum = bytes.slice(-BASE58_CHECKSUM_SIZE);
+  if (!bytesEqual(hash256(payload).slice(0, BASE58_CHECKSUM_SIZE), checksum)) {
+    throw new Error('Invalid Base58Check checksum');
+  }
+  return payload;
+}
+
+export default {
+  bytesToHex,
+  hexToBytes,
+  bytesEqual,
+  base58Encode,
+  base58Decode,
+  base58CheckEncode,
+  base58CheckDecode,
+};
@@ -0,0 +1,190 @@
+/**
+ * @radiantblockchain/constants - Script Errors
+ *
+ * Reasons a script can fail evaluation.
+ *
+ * Reference: Radiant-Core src/script/script_error.h
+ */
+
+export const ScriptError = {
+  OK: 'OK',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+  EVAL_FALSE: 'EVAL_FALSE',
+  OP_RETURN: 'OP_RETURN',
+
+  // Max sizes
+  SCRIPT_SIZE: 'SCRIPT_SIZE',
+  PUSH_SIZE: 'PUSH_SIZE',
+  OP_COUNT: 'OP_COUNT',
+  STACK_SIZE: 'STACK_SIZE',
+  SIG_COUNT: 'SIG_COUNT',
+  PUBKEY_COUNT: 'PUBKEY_COUNT',
+  INPUT_SIGCHECKS: 'INPUT_SIGCHECKS',
+
+  // Operand checks
+  INVALID_OPERAND_SIZE: 'INVALID_OPERAND_SIZE',
+  INVALID_NUMBER_RANGE: 'INVALID_NUMBER_RANGE',
+  IMPOSSIBLE_ENCODING: 'IMPOSSIBLE_ENCODING',
+  INVALID_SPLIT_RANGE: 'INVALID_SPLIT_RANGE',
+  SCRIPTNUM_OVERFLOW: 'SCRIPTNUM_OVERFLOW',
+  SCRIPTNUM_MINENCODE: 'SCRIPTNUM_MINENCODE',
+  INVALID_BIT_COUNT: 'INVALID_BIT_COUNT',
+
+  // Failed verify operations
+  VERIFY: 'VERIFY',
+  EQUALVERIFY: 'EQUALVERIFY',
+  CHECKMULTISIGVERIFY: 'CHECKMULTISIGVERIFY',
+  CHECKSIGVERIFY: 'CHECKSIGVERIFY',
+  CHECKDATASIGVERIFY: 'CHECKDATASIGVERIFY',
+  NUMEQUALVERIFY: 'NUMEQUALVERIFY',
+
+  // Logical/format/canonical errors
+  BAD_OPCODE: 'BAD_OPCODE',
+  DISABLED_OPCODE: 'DISABLED_OPCODE',
+  INVALID_STACK_OPERATION: 'INVALID_STACK_OPERATION',
+  INVALID_ALTSTACK_OPERATION: 'INVALID_ALTSTACK_OPERATION',
+  UNBALANCED_CONDITIONAL: 'UNBALANCED_CONDITIONAL',
+
+  // Divisor errors
+  DIV_BY_ZERO: 'DIV_BY_ZERO',
+  MOD_BY_ZERO: 'MOD_BY_ZERO',
+
+  // Bitfield errors
+  INVALID_BITFIELD_SIZE: 'INVALID_BITFIELD_SIZE',
+  INVALID_BIT_RANGE: 'INVALID_BIT_RANGE',
+
+  // CHECKLOCKTIMEVERIFY and CHECKSEQUENCEVERIFY
+  NEGATIVE_LOCKTIME: 'NEGATIVE_LOCKTIME',
+  UNSATISFIED_LOCKTIME: 'UNSATISFIED_LOCKTIME',
+
+  // Malleability
+  SIG_HASHTYPE: 'SIG_HASHTYPE',
+  SIG_DER: 'SIG_DER',
+  MINIMALDATA: 'MINIMALDATA',
+  SIG_PUSHONLY: 'SIG_PUSHONLY',
+  SIG_HIGH_S: 'SIG_HIGH_S',
+  PUBKEYTYPE: 'PUBKEYTYPE',
+  CLEANSTACK: 'CLEANSTACK',
+  MINIMALIF: 'MINIMALIF',
+  SIG_NULLDUMMY: 'SIG_NULLDUMMY',
+  SIG_NULLFAIL: 'SIG_NULLFAIL',
+
+  // Schnorr
+  SIG_BADLENGTH: 'SIG_BADLENGTH',
+  SIG_NONSCHNORR: 'SIG_NONSCHNORR',
+
+  // Softfork safeness
+  DISCOURAGE_UPGRADABLE_NOPS: 'DISCOURAGE_UPGRADABLE_NOPS',
+
+  // Anti replay
+  ILLEGAL_FORKID: 'ILLEGAL_FORKID',
+  MUST_USE_FORKID: 'MUST_USE_FORKID',
+
+  // Validation resources
+  SIGCHECKS_LIMIT_EXCEEDED: 'SIGCHECKS_LIMIT_EXCEEDED',
+
+  // Native introspection
+  CONTEXT_NOT_PRESENT: 'CONTEXT_NOT_PRESENT',
+  INVALID_TX_INPUT_INDEX: 'INVALID_TX_INPUT_INDEX',
+  INVALID_TX_OUTPUT_INDEX: 'INVALID_TX_OUTPUT_INDEX',
+
+  // State separator and references
+  INVALID_STATE_SEPARATOR_LOCATION: 'INVALID_STATE_SEPARATOR_LOCATION',
+  INVALID_REFERENCE: 'INVALID_REFERENCE',
+  INVALID_SINGLETON_REFERENCE: 'INVALID_SINGLETON_REFERENCE',
+} as const;
+
+export type ScriptErrorCode = (typeof ScriptError)[keyof typeof ScriptError];
+
+/**
+ * Error messages, as returned by the node's ScriptErrorString()
+ */
+export const ScriptErrorStrings: Record<ScriptErrorCode, string> = {
+  OK: 'No error',
+  UNKNOWN_ERROR: 'unknown error',
+  EVAL_FALSE: 'Script evaluated without error but finished with a false/empty top stack element',
+  OP_RETURN: 'OP_RETURN was encountered',
+
+  SCRIPT_SIZE: 'Script is too big',
+  PUSH_SIZE: 'Push value size limit exceeded',
+  OP_COUNT: 'Operation limit exceeded',
+  STACK_SIZE: 'Stack size limit exceeded',
+  SIG_COUNT: 'Signature count negative or greater than pubkey count',
+  PUBKEY_COUNT: 'Pubkey count negative or limit exceeded',
+  INPUT_SIGCHECKS: 'Input SigChecks limit exceeded',
+
+  INVALID_OPERAND_SIZE: 'Invalid operand size',
+  INVALID_NUMBER_RANGE: 'Given operand is not a number within the valid range [-2^63 + 1, 2^63 - 1]',
+  IMPOSSIBLE_ENCODING: 'The requested encoding is impossible to satisfy',
+  INVALID_SPLIT_RANGE: 'Invalid OP_SPLIT range',
+  SCRIPTNUM_OVERFLOW: 'Script number overflow',
+  SCRIPTNUM_MINENCODE: 'Non-minimally encoded script number',
+  INVALID_BIT_COUNT: 'Invalid number of bit set in OP_CHECKMULTISIG',
+
+  VERIFY: 'Script failed an OP_VERIFY operation',
+  EQUALVERIFY: 'Script failed an OP_EQUALVERIFY operation',
+  CHECKMULTISIGVERIFY: 'Script failed an OP_CHECKMULTISIGVERIFY operation',
+  CHECKSIGVERIFY: 'Script failed an OP_CHECKSIGVERIFY operation',
+  CHECKDATASIGVERIFY: 'Script failed an OP_CHECKDATASIGVERIFY operation',
+  NUMEQUALVERIFY: 'Script failed an OP_NUMEQUALVERIFY operation',
+
+  BAD_OPCODE: 'Opcode missing or not understood',
+  DISABLED_OPCODE: 'Attempted to use a disabled opcode',
+  INVALID_STACK_OPERATION: 'Operation not valid with the current stack size',
+  INVALID_ALTSTACK_OPERATION: 'Operation not valid with the current altstack size',
+  UNBALANCED_CONDITIONAL: 'Invalid OP_IF construction',
+
+  DIV_BY_ZERO: 'Division by zero error',
+  MOD_BY_ZERO: 'Modulo by zero error',
+
+  INVALID_BITFIELD_SIZE: 'Bitfield of unexpected size error',
+  INVALID_BIT_RANGE: "Bitfield's bit out of the expected range",
+
+  NEGATIVE_LOCKTIME: 'Negative locktime',
+  UNSATISFIED_LOCKTIME: 'Locktime requirement not satisfied',
+
+  SIG_HASHTYPE: 'Signature hash type missing or not understood',
+  SIG_DER: 'Non-canonical DER signature',
+  MINIMALDATA: 'Data push larger than necessary',
+  SIG_PUSHONLY: 'Only push operators allowed in signature scripts',
+  SIG_HIGH_S: 'Non-canonical signature: S value is unnecessarily high',
+  PUBKEYTYPE: 'Public key is neither compressed or uncompressed',
+  CLEANSTACK: 'Script did not clean its stack',
+  MINIMALIF: 'OP_IF/NOTIF argument must be minimal',
+  SIG_NULLDUMMY: 'Dummy CHECKMULTISIG argument must be zero',
+  SIG_NULLFAIL: 'Signature must be zero for failed CHECK(MULTI)SIG operation',
+
+  SIG_BADLENGTH: 'Signature cannot be 65 bytes in CHECKMULTISIG',
+  SIG_NONSCHNORR: 'Only Schnorr signatures allowed in this operation',
+
+  DISCOURAGE_UPGRADABLE_NOPS: 'NOPx reserved for soft-fork upgrades',
+
+  ILLEGAL_FORKID: 'Illegal use of SIGHASH_FORKID',
+  MUST_USE_FORKID: 'Signature must use SIGHASH_FORKID',
+
+  SIGCHECKS_LIMIT_EXCEEDED: 'Validation resources exceeded (SigChecks)',
+
+  CONTEXT_NOT_PRESENT: 'Script execution context not present',
+  INVALID_TX_INPUT_INDEX: 'Transaction input index out of range',
+  INVALID_TX_OUTPUT_INDEX: 'Transaction output index out of range',
+
+  INVALID_STATE_SEPARATOR_LOCATION: 'OP_STATESEPARATOR used more than once or inside a conditional',
+  INVALID_REFERENCE: 'Reference is not an input outpoint or carried by a spent output',
+  INVALID_SINGLETON_REFERENCE: 'Singleton reference is not an input outpoint or carried by a spent output',
+};
+
+/**
+ * Get the node's message for a script error code
+ */
+export function getScriptErrorString(code: string): string {
+  return isScriptErrorCode(code) ? ScriptErrorStrings[code] : ScriptErrorStrings.UNKNOWN_ERROR;
+}
+
+/**
+ * Check if a string is a known script error code
+ */
+export function isScriptErrorCode(code: string): code is ScriptErrorCode {
+  return Object.prototype.hasOwnProperty.call(ScriptErrorStrings, code);
+}
+
+export default ScriptError;
@@ -0,0 +1,211 @@
+/**
+ * @radiantblockchain/constants - Fees
+ *
+ * Transaction size estimation, fee computation and dust thresholds.
+ * Fee rates are in photons per 1000 bytes, as in the node's `CFeeRate`.
+ * Size estimates are upper bounds: signatures are counted at
+ * `MAX_SIGNATURE_SIZE` and public keys as compressed.
+ *
+ * Reference: Radiant-Core src/policy/policy.cpp, src/amount.cpp
+ */
+
+import { Limits } from './limits';
+import { Opcodes } from './opcodes';
+import { ScriptConstants } from './script';
+import { ScriptType, GLYPH_FT_CONSERVATION_SCRIPT } from './templates';
+import { getVarIntSize } from './transaction';
+
+/** Outpoint (32-byte txid + 4-byte vout) plus 4-byte sequence */
+const INPUT_BASE_SIZE = Limits.REF_SIZE + 4;
+
+/** 8-byte value */
+const OUTPUT_BASE_SIZE = 8;
+
+/** 4-byte version plus 4-byte lock time */
+const TX_BASE_SIZE = 8;
+
+/**
+ * Serialized size of a spending input that the node's dust rule assumes
+ * (outpoint, 107-byte P2PKH scriptSig, sequence)
+ */
+const DUST_SPEND_INPUT_SIZE = 148;
+
+/** <sig> <pubkey> */
+const P2PKH_SCRIPTSIG_SIZE = 1 + Limits.MAX_SIGNATURE_SIZE + 1 + Limits.COMPRESSED_PUBKEY_SIZE;
+
+/** OP_PUSHINPUTREFSINGLETON <ref> OP_DROP <p2pkh> */
+const GLYPH_NFT_SCRIPT_SIZE = 1 + Limits.REF_SIZE + 1 + ScriptConstants.P2PKH_SCRIPT_SIZE;
+
+/** <p2pkh> OP_STATESEPARATOR OP_PUSHINPUTREF <ref> <conservation script> */
+const GLYPH_FT_SCRIPT_SIZE =
+  ScriptConstants.P2PKH_SCRIPT_SIZE + 1 + 1 + Limits.REF_SIZE + GLYPH_FT_CONSERVATION_SCRIPT.length;
+
+/**
+ * Input shapes understood by `estimateTxSize`. P2PKH and Glyph inputs are
+ * unlocked with `<sig> <pubkey>`. P2SH inputs push `unlockingSize` bytes
+ * (e.g. signatures, including their push opcodes) followed by the redeem
+ * script.
+ */
+export type InputShape =
+  | typeof ScriptType.P2PKH
+  | typeof ScriptType.GLYPH_FT
+  | typeof ScriptType.GLYPH_NFT
+  | { type: typeof ScriptType.P2SH; redeemScriptSize: number; unlockingSize?: number }
+  | { scriptSigSize: number };
+
+/**
+ * Output shapes understood by `estimateTxSize`
+ */
+export type OutputShape =
+  | typeof ScriptType.P2PKH
+  | typeof ScriptType.P2SH
+  | typeof ScriptType.GLYPH_FT
+  | typeof ScriptType.GLYPH_NFT
+  | { script: Uint8Array }
+  | { scriptSize: number };
+
+/**
+ * Inputs and outputs of a transaction to estimate
+ */
+export interface TxShape {
+  inputs: InputShape[];
+  outputs: OutputShape[];
+}
+
+function pushSize(length: number): number {
+  if (length < Opcodes.OP_PUSHDATA1) return 1 + length;
+  if (length <= 0xff) return 2 + length;
+  if (length <= 0xffff) return 3 + length;
+  return 5 + length;
+}
+
+function assertSize(size: number, field: string): void {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error(`Invalid ${field}: ${size}`);
+  }
+}
+
+function getScriptSigSize(input: InputShape): number {
+  if (typeof input === 'string') {
+    switch (input) {
+      case ScriptType.P2PKH:
+      case ScriptType.GLYPH_FT:
+      case ScriptType.GLYPH_NFT:
+        return P2PKH_SCRIPTSIG_SIZE;
+      default:
+        throw new Error(`Unknown input type: "${input}"`);
+    }
+  }
+  if ('scriptSigSize' in input) {
+    assertSize(input.scriptSigSize, 'scriptSigSize');
+    return input.scriptSigSize;
+  }
+  const { redeemScriptSize, unlockingSize = 0 } = input;
+  assertSize(redeemScriptSize, 'redeemScriptSize');
+  assertSize(unlockingSize, 'unlockingSize');
+  return unlockingSize + pushSize(redeemScriptSize);
+}
+
+function getOutputScriptSize(output: OutputShape): number {
+  if (typeof output === 'string') {
+    switch (output) {
+      case ScriptType.P2PKH:
+        return ScriptConstants.P2PKH_SCRIPT_SIZE;
+      case ScriptType.P2SH:
+        return ScriptConstants.P2SH_SCRIPT_SIZE;
+      case ScriptType.GLYPH_FT:
+        return GLYPH_FT_SCRIPT_SIZE;
+      case ScriptType.GLYPH_NFT:
+        return GLYPH_NFT_SCRIPT_SIZE;
+      default:
+        throw new Error(`Unknown output type: "${output}"`);
+    }
+  }
+  if ('script' in output) return output.script.length;
+  assertSize(output.scriptSize, 'scriptSize');
+  return output.scriptSize;
+}
+
+/**
+ * Serialized size of an input
+ * @throws Error for unknown shapes or invalid sizes
+ */
+export function getInputSize(input: InputShape): number {
+  const scriptSigSize = getScriptSigSize(input);
+  return INPUT_BASE_SIZE + getVarIntSize(scriptSigSize) + scriptSigSize;
+}
+
+/**
+ * Serialized size of an output
+ * @throws Error for unknown shapes or invalid sizes
+ */
+export function getOutputSize(output: OutputShape): number {
+  const scriptSize = getOutputScriptSize(output);
+  return OUTPUT_BASE_SIZE + getVarIntSize(scriptSize) + scriptSize;
+}
+
+/**
+ * Estimate the serialized size of a transaction. Transactions smaller than
+ * `MIN_TX_SIZE` are invalid, so smaller estimates are raised to it: the
+ * transaction has to be padded and the padding pays fees too.
+ * @throws Error if the estimate exceeds `MAX_TX_SIZE`
+ */
+export function estimateTxSize(tx: TxShape): number {
+  let size = TX_BASE_SIZE + getVarIntSize(tx.inputs.length) + getVarIntSize(tx.outputs.length);
+  for (const input of tx.inputs) size += getInputSize(input);
+  for (const output of tx.outputs) size += getOutputSize(output);
+  if (size > Limits.MAX_TX_SIZE) {
+    throw new Error(`Estimated transaction size ${size} exceeds MAX_TX_SIZE ${Limits.MAX_TX_SIZE}`);
+  }
+  return Math.max(size, Limits.MIN_TX_SIZE);
+}
+
+/**
+ * Fee for `size` bytes at `feeRate` photons per 1000 bytes, rounded down
+ * but at least 1 photon for a non-zero rate, as the node computes it
+ * @throws Error if the size or rate is negative
+ */
+export function computeFee(size: number, feeRate: bigint): bigint {
+  assertSize(size, 'transaction size');
+  if (feeRate < 0n) {
+    throw new Error(`Invalid fee rate: ${feeRate}`);
+  }
+  const fee = (feeRate * BigInt(size)) / 1000n;
+  return fee === 0n && size > 0 && feeRate > 0n ? 1n : fee;
+}
+
+/**
+ * Check whether an output script can never be spent (OP_RETURN or OP_FALSE OP_RETURN)
+ */
+function isUnspendable(script: Uint8Array): boolean {
+  return script[0] === Opcodes.OP_RETURN ||
+    (script[0] === ScriptConstants.OP_RETURN_PREFIX[0] && script[1] === ScriptConstants.OP_RETURN_PREFIX[1]);
+}
+
+/**
+ * Smallest value, in photons, at which an output with this script is not
+ * dust: three times the relay fee of the output plus the input spending it.
+ * At the default 1000 photons/kB a P2PKH output gives `DUST_THRESHOLD`.
+ * Unspendable outputs have no dust threshold.
+ */
+export function getDustThreshold(script: Uint8Array, relayFeeRate: bigint): bigint {
+  if (isUnspendable(script)) return 0n;
+  const size = getOutputSize({ script }) + DUST_SPEND_INPUT_SIZE;
+  return 3n * computeFee(size, relayFeeRate);
+}
+
+/**
+ * Check whether an output value is below its dust threshold
+ */
+export function isDust(value: bigint, script: Uint8Array, relayFeeRate: bigint): boolean {
+  return value < getDustThreshold(script, relayFeeRate);
+}
+
+export default {
+  getInputSize,
+  getOutputSize,
+  estimateTxSize,
+  computeFee,
+  getDustThreshold,
+  isDust,
+};
@@ -129,6 +129,15 @@ export const ScriptFlags = {
 export type ScriptFlagName = keyof typeof ScriptFlags;
 export type ScriptFlagValue = (typeof ScriptFlags)[keyof typeof ScriptFlags];
 
+/**
+ * Script flags enabled by the Radiant script upgrades, part of both the
+ * standard and the mandatory flags
+ */
+export const UPGRADE_SCRIPT_VERIFY_FLAGS =
+  ScriptFlags.SCRIPT_64_BIT_INTEGERS |
+  ScriptFlags.SCRIPT_NATIVE_INTROSPECTION |
+  ScriptFlags.SCRIPT_ENHANCED_REFERENCES;
+
 /**
  * Standard script verification flags for Radiant mainnet
  */
@@ -146,16 +155,94 @@ export const STANDARD_SCRIPT_VERIFY_FLAGS =
   ScriptFlags.SCRIPT_VERIFY_MINIMALIF |
   ScriptFlags.SCRIPT_VERIFY_NULLFAIL |
   ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID |
-  ScriptFlags.SCRIPT_64_BIT_INTEGERS |
-  ScriptFlags.SCRIPT_NATIVE_INTROSPECTION |
-  ScriptFlags.SCRIPT_ENHANCED_REFERENCES;
+  UPGRADE_SCRIPT_VERIFY_FLAGS;
 
 /**
  * Mandatory script verification flags (consensus)
  */
 export const MANDATORY_SCRIPT_VERIFY_FLAGS =
   ScriptFlags.SCRIPT_VERIFY_P2SH |
-  ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID;
+  ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID |
+  UPGRADE_SCRIPT_VERIFY_FLAGS;
+
+/**
+ * Script flag enabled by each network upgrade once it activates
+ */
+export const UpgradeScriptFlags = {
+  script64BitIntegers: ScriptFlags.SCRIPT_64_BIT_INTEGERS,
+  nativeIntrospection: ScriptFlags.SCRIPT_NATIVE_INTROSPECTION,
+  enhancedReferences: ScriptFlags.SCRIPT_ENHANCED_REFERENCES,
+} as const;
+
+export type UpgradeName = keyof typeof UpgradeScriptFlags;
+
+/**
+ * When an upgrade activates: at a block height, or for blocks whose
+ * previous block's median-time-past is at least a Unix time
+ */
+export type UpgradeActivation = { height: number } | { medianTimePast: number };
+
+/**
+ * Activation of each Radiant script upgrade. Upgrades left out are active
+ * from genesis, as the standard and mandatory flags assume. The built-in
+ * networks do not record a schedule, so callers supply one.
+ */
+export type UpgradeSchedule = Partial<Record<UpgradeName, UpgradeActivation>>;
+
+/**
+ * Options for `getScriptFlagsAtHeight`
+ */
+export interface ScriptFlagsAtHeightOptions {
+  /** Return the standard (policy) flags instead of the mandatory ones (default false) */
+  standard?: boolean;
+  /** Median-time-past of the previous block, required by time-activated upgrades */
+  medianTimePast?: number;
+}
+
+/**
+ * Check whether an upgrade is active for a block at `height`
+ * @throws Error if the upgrade activates by time and `medianTimePast` is missing
+ */
+export function isUpgradeActive(
+  schedule: UpgradeSchedule,
+  upgrade: UpgradeName,
+  height: number,
+  medianTimePast?: number
+): boolean {
+  const activation = schedule[upgrade];
+  if (!activation) return true;
+  if ('height' in activation) return height >= activation.height;
+  if (medianTimePast === undefined) {
+    throw new Error(`Upgrade ${upgrade} activates by median-time-past, which was not given`);
+  }
+  return medianTimePast >= activation.medianTimePast;
+}
+
+/**
+ * Script flags in force for a block at `height` under `schedule`. Flags of
+ * upgrades that are not yet active are removed from the mandatory or
+ * standard set; with every upgrade active the result is that set.
+ * @throws Error if the height or median-time-past is invalid, or a
+ * time-activated upgrade needs a median-time-past that was not given
+ */
+export function getScriptFlagsAtHeight(
+  schedule: UpgradeSchedule,
+  height: number,
+  options: ScriptFlagsAtHeightOptions = {}
+): number {
+  if (!Number.isInteger(height) || height < 0) {
+    throw new Error(`Invalid block height: ${height}`);
+  }
+  const { medianTimePast } = options;
+  if (medianTimePast !== undefined && (!Number.isInteger(medianTimePast) || medianTimePast < 0)) {
+    throw new Error(`Invalid median-time-past: ${medianTimePast}`);
+  }
+  let flags = options.standard ? STANDARD_SCRIPT_VERIFY_FLAGS : MANDATORY_SCRIPT_VERIFY_FLAGS;
+  for (const [upgrade, flag] of Object.entries(UpgradeScriptFlags) as [UpgradeName, number][]) {
+    if (!isUpgradeActive(schedule, upgrade, height, medianTimePast)) flags &= ~flag;
+  }
+  return flags;
+}
 
 /**
  * Sighash types
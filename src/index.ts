@@ -17,8 +17,11 @@ export {
   isStateSeparatorOpcode,
   isPushOpcode,
   isReenabledOpcode,
+  OpcodeCategory,
+  OpcodeInfoTable,
+  getOpcodeInfo,
 } from './opcodes';
-export type { OpcodeValue, OpcodeName } from './opcodes';
+export type { OpcodeValue, OpcodeName, OpcodeCategoryName, OpcodeInfo } from './opcodes';
 
 // Limits
 export {
@@ -27,10 +30,18 @@ export {
   exceedsScriptSize,
   exceedsStackSize,
   exceedsOpCount,
+  checkElementSize,
+  checkScriptSize,
+  checkStackSize,
+  checkOpCount,
+  getMaxInputSigChecks,
+  getMaxBlockSigChecks,
   toPhotons,
   toRxd,
+  parseRxd,
+  formatRxd,
 } from './limits';
-export type { LimitName, LimitValue } from './limits';
+export type { LimitName, LimitValue, FormatRxdOptions } from './limits';
 
 // Flags
 export {
@@ -38,13 +49,26 @@ export {
   SigHashType,
   STANDARD_SCRIPT_VERIFY_FLAGS,
   MANDATORY_SCRIPT_VERIFY_FLAGS,
+  UPGRADE_SCRIPT_VERIFY_FLAGS,
   DEFAULT_SIGHASH_TYPE,
+  UpgradeScriptFlags,
+  isUpgradeActive,
+  getScriptFlagsAtHeight,
   hasFlag,
   setFlag,
   clearFlag,
   getFlagNames,
 } from './flags';
-export type { ScriptFlagName, ScriptFlagValue, SigHashTypeName, SigHashTypeValue } from './flags';
+export type {
+  ScriptFlagName,
+  ScriptFlagValue,
+  ScriptFlagsAtHeightOptions,
+  UpgradeName,
+  UpgradeActivation,
+  UpgradeSchedule,
+  SigHashTypeName,
+  SigHashTypeValue,
+} from './flags';
 
 // Networks
 export {
@@ -54,12 +78,214 @@ export {
   regtest,
   getNetwork,
   getNetworkByMagic,
+  getNetworks,
+  registerNetwork,
+  unregisterNetwork,
+  serializeNetwork,
+  deserializeNetwork,
+  exportNetworkRegistry,
+  importNetworkRegistry,
   isMainnet,
   isTestnet,
   isRegtest,
   ElectrumServers,
+  SLIP44_COIN_TYPE,
+  DEFAULT_DERIVATION_PATH,
 } from './networks';
-export type { NetworkParams, NetworkName } from './networks';
+export type {
+  NetworkParams,
+  NetworkName,
+  ConsensusParams,
+  SerializedNetworkParams,
+  NetworkRegistrySnapshot,
+} from './networks';
+
+// Block subsidy and supply
+export {
+  INITIAL_BLOCK_SUBSIDY,
+  MAX_HALVINGS,
+  getBlockSubsidy,
+  halvingSchedule,
+  getSupplyAtHeight,
+  getTotalSupply,
+  validateSupply,
+} from './supply';
+export type { HalvingEra } from './supply';
+
+// Encoding
+export {
+  bytesToHex,
+  hexToBytes,
+  bytesEqual,
+  base58Encode,
+  base58Decode,
+  base58CheckEncode,
+  base58CheckDecode,
+} from './encoding';
+
+// Addresses
+export { AddressType, encodeAddress, decodeAddress, validateAddress } from './address';
+export type { AddressTypeName, DecodedAddress } from './address';
+
+// Private keys
+export {
+  SECP256K1_ORDER,
+  PRIVATE_KEY_SIZE,
+  isValidPrivateKey,
+  getPublicKey,
+  encodeWif,
+  decodeWif,
+} from './keys';
+export type { WifOptions, DecodedWif } from './keys';
+
+// BIP32 extended keys
+export {
+  EXTENDED_KEY_SIZE,
+  CHAIN_CODE_SIZE,
+  HARDENED_OFFSET,
+  encodeExtendedKey,
+  decodeExtendedKey,
+  getExtendedPublicKey,
+  getFingerprint,
+  toPublicExtendedKey,
+  createMasterKey,
+  deriveChild,
+  parseDerivationPath,
+  derivePath,
+  getExtendedKeyAddress,
+} from './bip32';
+export type { ExtendedKey, DecodedExtendedKey } from './bip32';
+
+// Hash functions
+export {
+  sha256,
+  hash256,
+  ripemd160,
+  hash160,
+  sha1,
+  sha512_256,
+  hash512_256,
+} from './crypto';
+
+// Script numbers
+export {
+  getScriptNumMaxSize,
+  encodeScriptNum,
+  decodeScriptNum,
+  isMinimalScriptNum,
+  minimallyEncodeScriptNum,
+} from './scriptnum';
+export type { ScriptNumOptions } from './scriptnum';
+
+// Script
+export {
+  ScriptConstants,
+  REF_OPERAND_OPCODES,
+  hasRefOperand,
+  parseScript,
+  getMinimalPushOpcode,
+  isMinimalPush,
+  encodePushData,
+  encodePushNumber,
+  getAsmOpcodeName,
+  chunkToAsm,
+  disassembleScript,
+  assembleScript,
+  findStateSeparator,
+  splitStateScript,
+  countOps,
+  countSigChecks,
+} from './script';
+export type { ScriptChunk, DisassembledScript, StateScriptSplit } from './script';
+
+// References
+export {
+  RefFormat,
+  refFromBytes,
+  refToBytes,
+  parseRef,
+  formatRef,
+  refsEqual,
+  extractRefs,
+} from './refs';
+export type { Ref, RefFormatName, ScriptRef } from './refs';
+
+// Output templates
+export {
+  GLYPH_FT_CONSERVATION_SCRIPT,
+  ScriptType,
+  classifyScript,
+} from './templates';
+export type { ScriptTypeName, ClassifiedScript } from './templates';
+
+// Transactions
+export {
+  SEQUENCE_FINAL,
+  MAX_VARINT_SIZE,
+  getVarIntSize,
+  encodeVarInt,
+  decodeVarInt,
+  serializeTransaction,
+  parseTransaction,
+  getTxid,
+  getTransactionSize,
+  validateTransaction,
+} from './transaction';
+export type { TxInput, TxOutput, Transaction } from './transaction';
+
+// Signature hashes
+export {
+  parseSighashType,
+  checkSighashType,
+  isValidSighashType,
+  formatSighashType,
+  parseSighashTypeString,
+  getOutputRefs,
+  getRefsHash,
+  getOutputDataSummary,
+  computeSighashPreimage,
+  computeSighash,
+} from './sighash';
+export type { ParsedSighashType, OutputRefs } from './sighash';
+
+// Signature encoding
+export {
+  SCHNORR_SIGNATURE_SIZE,
+  MIN_DER_SIGNATURE_SIZE,
+  MAX_DER_SIGNATURE_SIZE,
+  isValidDerSignature,
+  isLowDerSignature,
+  checkSignatureEncoding,
+  checkDataSignatureEncoding,
+  checkPubKeyEncoding,
+  verifySignature,
+} from './signature';
+
+// Fees
+export { getInputSize, getOutputSize, estimateTxSize, computeFee, getDustThreshold, isDust } from './fees';
+export type { InputShape, OutputShape, TxShape } from './fees';
+
+// Script errors
+export { ScriptError, ScriptErrorStrings, getScriptErrorString, isScriptErrorCode } from './errors';
+export type { ScriptErrorCode } from './errors';
+
+// Interpreter
+export { createSignatureChecker, evalScript, verifyScript } from './interpreter';
+export type {
+  ScriptTxInput,
+  ScriptTxOutput,
+  ScriptTransaction,
+  ScriptContext,
+  SignatureChecker,
+  ScriptPhase,
+  TraceStep,
+  InterpreterOptions,
+  ScriptResult,
+} from './interpreter';
+
+// Script linter
+export { LintSeverity, lintScript } from './lint';
+export type { LintSeverityName, LintFinding, LintOptions } from './lint';
 
 // Glyph v2 Token Standard
 export {
@@ -131,20 +357,3 @@ export type {
  * Package version
  */
 export const VERSION = '1.1.0';
-
-/**
- * Useful constants for script building
- */
-export const ScriptConstants = {
-  /** Empty script */
-  EMPTY_SCRIPT: new Uint8Array(0),
-  
-  /** OP_FALSE OP_RETURN prefix for unspendable outputs */
-  OP_RETURN_PREFIX: new Uint8Array([0x00, 0x6a]),
-  
-  /** P2PKH script template size (25 bytes) */
-  P2PKH_SCRIPT_SIZE: 25,
-  
-  /** P2SH script template size (23 bytes) */
-  P2SH_SCRIPT_SIZE: 23,
-} as const;
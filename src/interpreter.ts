@@ -0,0 +1,1222 @@
+/**
+ * @radiantblockchain/constants - Script Interpreter
+ *
+ * Reference implementation of Radiant script evaluation, driven by the
+ * `Opcodes`, `Limits` and `ScriptFlags` tables. Covers the re-enabled
+ * splice/bitwise opcodes, 64-bit arithmetic, native introspection, the
+ * state separator and the reference opcodes.
+ *
+ * Signature verification goes through a `SignatureChecker`. Without one, the
+ * checker from `createSignatureChecker` is used, which computes the sighash
+ * from the script context. OP_PUSH_TX_STATE is not evaluated: its field
+ * encoding is not specified here, so it fails with BAD_OPCODE. Transaction-level reference
+ * rules (refs in outputs must be carried forward from inputs, DISALLOW rules)
+ * are checked across all inputs by the node and are not part of evaluating a
+ * single input.
+ *
+ * Reference: Radiant-Core src/script/interpreter.cpp
+ */
+
+import { Opcodes, isReferenceOpcode } from './opcodes';
+import { Limits, checkScriptSize, checkStackSize, getMaxInputSigChecks } from './limits';
+import { ScriptFlags, hasFlag } from './flags';
+import { ScriptError } from './errors';
+import type { ScriptErrorCode } from './errors';
+import {
+  getScriptNumMaxSize,
+  encodeScriptNum,
+  decodeScriptNum,
+  isMinimalScriptNum,
+  minimallyEncodeScriptNum,
+} from './scriptnum';
+import { parseScript, getAsmOpcodeName, isMinimalPush, splitStateScript, findStateSeparator } from './script';
+import type { ScriptChunk } from './script';
+import { refToBytes } from './refs';
+import { getOutputRefs, getRefsHash, getOutputDataSummary, computeSighash } from './sighash';
+import type { OutputRefs } from './sighash';
+import { checkSignatureEncoding, checkDataSignatureEncoding, checkPubKeyEncoding, verifySignature } from './signature';
+import type { Transaction, TxInput, TxOutput } from './transaction';
+import { bytesEqual, bytesToHex, hexToBytes } from './encoding';
+import { sha256, hash256, ripemd160, hash160, sha1, sha512_256, hash512_256 } from './crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Transaction input as seen by the interpreter
+ */
+export type ScriptTxInput = TxInput;
+
+/**
+ * Transaction output as seen by the interpreter
+ */
+export type ScriptTxOutput = TxOutput;
+
+/**
+ * Transaction as seen by the interpreter
+ */
+export type ScriptTransaction = Transaction;
+
+/**
+ * Transaction being validated, required by introspection, reference,
+ * locktime and signature opcodes
+ */
+export interface ScriptContext {
+  tx: ScriptTransaction;
+  /** Index of the input being evaluated */
+  inputIndex: number;
+  /** Outputs spent by each input, in input order */
+  utxos: ScriptTxOutput[];
+}
+
+/**
+ * Signature verification backend
+ */
+export interface SignatureChecker {
+  /**
+   * Verify a transaction signature (including its trailing sighash byte)
+   * against the script code of the input being evaluated
+   */
+  checkSig(sig: Uint8Array, pubKey: Uint8Array, scriptCode: Uint8Array, flags: number): boolean;
+  /** Verify a signature over arbitrary data (OP_CHECKDATASIG) */
+  checkDataSig(sig: Uint8Array, message: Uint8Array, pubKey: Uint8Array, flags: number): boolean;
+}
+
+/**
+ * Which script a trace step belongs to
+ */
+export type ScriptPhase = 'scriptSig' | 'scriptPubKey' | 'redeemScript' | 'script';
+
+/**
+ * One evaluated (or skipped) operation
+ */
+export interface TraceStep {
+  phase: ScriptPhase;
+  /** Byte offset of the opcode within its script */
+  pc: number;
+  opcode: number;
+  opcodeName: string;
+  /** False when skipped inside an unexecuted branch */
+  executed: boolean;
+  /** Main stack after the step (top is last) */
+  stack: Uint8Array[];
+  /** Alt stack after the step (top is last) */
+  altStack: Uint8Array[];
+  /** Set on the step that failed */
+  error?: ScriptErrorCode;
+}
+
+/**
+ * Interpreter options
+ */
+export interface InterpreterOptions {
+  context?: ScriptContext;
+  /** Defaults to `createSignatureChecker(context)` */
+  checker?: SignatureChecker;
+  /** Record a `TraceStep` per operation */
+  trace?: boolean;
+}
+
+/**
+ * Result of evaluating a script
+ */
+export interface ScriptResult {
+  success: boolean;
+  /** `OK` on success */
+  error: ScriptErrorCode;
+  /** Script and byte offset where evaluation failed */
+  errorPhase?: ScriptPhase;
+  errorPc?: number;
+  stack: Uint8Array[];
+  altStack: Uint8Array[];
+  /** Non-push operations counted toward MAX_OPS_PER_SCRIPT */
+  opCount: number;
+  /** Signature checks performed, across all evaluated scripts */
+  sigChecks: number;
+  trace: TraceStep[];
+}
+
+// =============================================================================
+// Internals
+// =============================================================================
+
+const SEQUENCE_FINAL = 0xffffffff;
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 1 << 22;
+const SEQUENCE_LOCKTIME_MASK = 0x0000ffff;
+const MAX_INT64 = (1n << 63n) - 1n;
+const LOCKTIME_NUM_SIZE = 5;
+
+/**
+ * Build a `SignatureChecker` that verifies ECDSA and Schnorr signatures with
+ * secp256k1. Transaction signatures are checked against the SIGHASH_FORKID
+ * digest of `context`; data signatures against sha256 of the message.
+ * Without a context, `checkSig` returns false.
+ */
+export function createSignatureChecker(context?: ScriptContext): SignatureChecker {
+  return {
+    checkSig(sig, pubKey, scriptCode) {
+      if (!context || sig.length === 0) return false;
+      const utxo = context.utxos[context.inputIndex];
+      if (!utxo) return false;
+      let digest: Uint8Array;
+      try {
+        digest = computeSighash(context.tx, context.inputIndex, scriptCode, utxo.value, sig[sig.length - 1]);
+      } catch {
+        return false;
+      }
+      return verifySignature(sig.subarray(0, sig.length - 1), digest, pubKey);
+    },
+    checkDataSig(sig, message, pubKey) {
+      return verifySignature(sig, sha256(message), pubKey);
+    },
+  };
+}
+
+class ScriptFailure extends Error {
+  constructor(readonly code: ScriptErrorCode) {
+    super(code);
+  }
+}
+
+function fail(code: ScriptErrorCode): never {
+  throw new ScriptFailure(code);
+}
+
+function castToBool(bytes: Uint8Array): boolean {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) {
+      // Negative zero is false
+      return !(i === bytes.length - 1 && bytes[i] === 0x80);
+    }
+  }
+  return false;
+}
+
+/** Conditionals are processed even inside unexecuted branches */
+function isConditional(opcode: number): boolean {
+  return opcode >= Opcodes.OP_IF && opcode <= Opcodes.OP_ENDIF;
+}
+
+const TRUE = new Uint8Array([1]);
+const FALSE = new Uint8Array(0);
+
+function assertOk(error: ScriptErrorCode): void {
+  if (error !== ScriptError.OK) fail(error);
+}
+
+// =============================================================================
+// Interpreter
+// =============================================================================
+
+class Interpreter {
+  stack: Uint8Array[];
+  altStack: Uint8Array[] = [];
+  opCount = 0;
+  sigChecks = 0;
+  trace: TraceStep[] = [];
+
+  private readonly maxNumSize: number;
+  private readonly requireMinimal: boolean;
+  private utxoRefsCache?: OutputRefs[];
+  private outputRefsCache?: OutputRefs[];
+  private checkerCache?: SignatureChecker;
+
+  constructor(
+    stack: Uint8Array[],
+    private readonly flags: number,
+    private readonly options: InterpreterOptions,
+  ) {
+    this.stack = stack;
+    this.maxNumSize = getScriptNumMaxSize(flags);
+    this.requireMinimal = hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_MINIMALDATA);
+  }
+
+  // --- stack helpers --------------------------------------------------------
+
+  private top(depth = 1): Uint8Array {
+    if (this.stack.length < depth) fail(ScriptError.INVALID_STACK_OPERATION);
+    return this.stack[this.stack.length - depth];
+  }
+
+  private pop(): Uint8Array {
+    if (this.stack.length < 1) fail(ScriptError.INVALID_STACK_OPERATION);
+    return this.stack.pop() as Uint8Array;
+  }
+
+  private need(count: number): void {
+    if (this.stack.length < count) fail(ScriptError.INVALID_STACK_OPERATION);
+  }
+
+  private push(bytes: Uint8Array): void {
+    if (bytes.length > Limits.MAX_SCRIPT_ELEMENT_SIZE) fail(ScriptError.PUSH_SIZE);
+    this.stack.push(bytes);
+  }
+
+  private toNum(bytes: Uint8Array, maxSize = this.maxNumSize): bigint {
+    if (bytes.length > maxSize) fail(ScriptError.SCRIPTNUM_OVERFLOW);
+    if (this.requireMinimal && !isMinimalScriptNum(bytes)) fail(ScriptError.SCRIPTNUM_MINENCODE);
+    return decodeScriptNum(bytes, { maxSize, requireMinimal: false });
+  }
+
+  private popNum(maxSize?: number): bigint {
+    return this.toNum(this.pop(), maxSize);
+  }
+
+  private pushNum(value: bigint): void {
+    if (hasFlag(this.flags, ScriptFlags.SCRIPT_64_BIT_INTEGERS) && (value > MAX_INT64 || value < -MAX_INT64)) {
+      fail(ScriptError.INVALID_NUMBER_RANGE);
+    }
+    this.stack.push(encodeScriptNum(value, { maxSize: Infinity }));
+  }
+
+  private pushBool(value: boolean): void {
+    this.stack.push(value ? TRUE : FALSE);
+  }
+
+  private popIndex(): number {
+    const n = this.popNum();
+    if (n < 0n || n > BigInt(Number.MAX_SAFE_INTEGER)) return -1;
+    return Number(n);
+  }
+
+  // --- context helpers ------------------------------------------------------
+
+  private get context(): ScriptContext {
+    if (!this.options.context) fail(ScriptError.CONTEXT_NOT_PRESENT);
+    return this.options.context;
+  }
+
+  private inputAt(index: number): { input: ScriptTxInput; utxo: ScriptTxOutput } {
+    const { tx, utxos } = this.context;
+    if (index < 0 || index >= tx.inputs.length || index >= utxos.length) fail(ScriptError.INVALID_TX_INPUT_INDEX);
+    return { input: tx.inputs[index], utxo: utxos[index] };
+  }
+
+  private outputAt(index: number): ScriptTxOutput {
+    const { tx } = this.context;
+    if (index < 0 || index >= tx.outputs.length) fail(ScriptError.INVALID_TX_OUTPUT_INDEX);
+    return tx.outputs[index];
+  }
+
+  private get checker(): SignatureChecker {
+    this.checkerCache ??= this.options.checker ?? createSignatureChecker(this.options.context);
+    return this.checkerCache;
+  }
+
+  private get utxoRefs(): OutputRefs[] {
+    this.utxoRefsCache ??= this.context.utxos.map(utxo => getOutputRefs(utxo.script));
+    return this.utxoRefsCache;
+  }
+
+  private get outputRefs(): OutputRefs[] {
+    this.outputRefsCache ??= this.context.tx.outputs.map(output => getOutputRefs(output.script));
+    return this.outputRefsCache;
+  }
+
+  private isInputOutpoint(refHex: string): boolean {
+    return this.context.tx.inputs.some(input => bytesToHex(refToBytes(input.prevout)) === refHex);
+  }
+
+  private checkInputRef(opcode: number, ref: Uint8Array): void {
+    const refHex = bytesToHex(ref);
+    if (this.isInputOutpoint(refHex)) return;
+    if (opcode === Opcodes.OP_PUSHINPUTREFSINGLETON) {
+      if (!this.utxoRefs.some(refs => refs.singleton.has(refHex))) fail(ScriptError.INVALID_SINGLETON_REFERENCE);
+    } else if (!this.utxoRefs.some(refs => refs.normal.has(refHex))) {
+      fail(ScriptError.INVALID_REFERENCE);
+    }
+  }
+
+  private popRef(): string {
+    const ref = this.pop();
+    if (ref.length !== Limits.REF_SIZE) fail(ScriptError.INVALID_OPERAND_SIZE);
+    return bytesToHex(ref);
+  }
+
+  private popHash(): Uint8Array {
+    const hash = this.pop();
+    if (hash.length !== Limits.HASH256_SIZE) fail(ScriptError.INVALID_OPERAND_SIZE);
+    return hash;
+  }
+
+  // --- signature helpers ----------------------------------------------------
+
+  private checkSig(sig: Uint8Array, pubKey: Uint8Array, scriptCode: Uint8Array): boolean {
+    if (sig.length === 0) return false;
+    // The default checker needs the spending transaction to compute the sighash
+    if (!this.options.checker && !this.options.context) fail(ScriptError.CONTEXT_NOT_PRESENT);
+    return this.checker.checkSig(sig, pubKey, scriptCode, this.flags);
+  }
+
+  private checkMultiSig(scriptCode: Uint8Array): boolean {
+    let i = 1;
+    this.need(i);
+    const keyCount = Number(this.toNum(this.top(i)));
+    if (keyCount < 0 || keyCount > Limits.MAX_PUBKEYS_PER_MULTISIG) fail(ScriptError.PUBKEY_COUNT);
+    this.opCount += keyCount;
+    if (this.opCount > Limits.MAX_OPS_PER_SCRIPT) fail(ScriptError.OP_COUNT);
+    const firstKey = ++i;
+    i += keyCount;
+    this.need(i);
+    const sigCount = Number(this.toNum(this.top(i)));
+    if (sigCount < 0 || sigCount > keyCount) fail(ScriptError.SIG_COUNT);
+    const firstSig = ++i;
+    i += sigCount;
+    this.need(i);
+
+    const dummy = this.top(i);
+    const sigs = Array.from({ length: sigCount }, (_, n) => this.top(firstSig + n));
+    const keys = Array.from({ length: keyCount }, (_, n) => this.top(firstKey + n));
+    let success = true;
+
+    if (hasFlag(this.flags, ScriptFlags.SCRIPT_ENABLE_SCHNORR_MULTISIG) && dummy.length > 0) {
+      // Schnorr mode: the dummy element is a bitfield selecting the keys
+      if (dummy.length !== Math.floor((keyCount + 7) / 8)) fail(ScriptError.INVALID_BITFIELD_SIZE);
+      let bitfield = 0n;
+      for (let b = dummy.length - 1; b >= 0; b--) bitfield = (bitfield << 8n) | BigInt(dummy[b]);
+      if (bitfield >> BigInt(keyCount) !== 0n) fail(ScriptError.INVALID_BIT_RANGE);
+
+      const selected = keys.filter((_, k) => (bitfield >> BigInt(k)) & 1n);
+      if (selected.length !== sigCount) fail(ScriptError.INVALID_BIT_COUNT);
+
+      this.sigChecks += sigCount;
+      for (let n = 0; n < sigCount; n++) {
+        const sig = sigs[n];
+        // Keys are consumed in order; signatures must be 64-byte Schnorr plus sighash byte
+        if (sig.length !== 65) fail(ScriptError.SIG_NONSCHNORR);
+        assertOk(checkSignatureEncoding(sig, this.flags));
+        assertOk(checkPubKeyEncoding(selected[n], this.flags));
+        if (!this.checkSig(sig, selected[n], scriptCode)) fail(ScriptError.SIG_NULLFAIL);
+      }
+    } else {
+      let isig = 0;
+      let ikey = 0;
+      let remainingSigs = sigCount;
+      let remainingKeys = keyCount;
+      while (success && remainingSigs > 0) {
+        const sig = sigs[isig];
+        const key = keys[ikey];
+        if (hasFlag(this.flags, ScriptFlags.SCRIPT_ENABLE_SCHNORR_MULTISIG) && sig.length === 65) {
+          fail(ScriptError.SIG_BADLENGTH);
+        }
+        assertOk(checkSignatureEncoding(sig, this.flags));
+        assertOk(checkPubKeyEncoding(key, this.flags));
+        if (this.checkSig(sig, key, scriptCode)) {
+          isig++;
+          remainingSigs--;
+        }
+        ikey++;
+        remainingKeys--;
+        if (remainingSigs > remainingKeys) success = false;
+      }
+      if (!success && hasFlag(this.flags, ScriptFlags.SCRIPT_VERIFY_NULLFAIL) && sigs.some(sig => sig.length > 0)) {
+        fail(ScriptError.SIG_NULLFAIL);
+      }
+      // Legacy mode costs one check per key unless every signature is empty
+      if (sigs.some(sig => sig.length > 0)) this.sigChecks += keyCount;
+    }
+
+    this.stack.splice(this.stack.length - i, i);
+    return success;
+  }
+
+  // --- locktime helpers -----------------------------------------------------
+
+  private checkLockTime(lockTime: bigint): boolean {
+    const { tx, inputIndex } = this.context;
+    const txLockTime = BigInt(tx.lockTime);
+    const threshold = BigInt(Limits.LOCKTIME_THRESHOLD);
+    if ((txLockTime < threshold) !== (lockTime < threshold)) return false;
+    if (lockTime > txLockTime) return false;
+    return tx.inputs[inputIndex]?.sequence !== SEQUENCE_FINAL;
+  }
+
+  private checkSequence(sequence: bigint): boolean {
+    const { tx, inputIndex } = this.context;
+    const txSequence = tx.inputs[inputIndex]?.sequence ?? SEQUENCE_FINAL;
+    if (tx.version < 2) return false;
+    if (txSequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) return false;
+    const mask = BigInt(SEQUENCE_LOCKTIME_TYPE_FLAG | SEQUENCE_LOCKTIME_MASK);
+    const txMasked = BigInt(txSequence) & mask;
+    const masked = sequence & mask;
+    const typeFlag = BigInt(SEQUENCE_LOCKTIME_TYPE_FLAG);
+    if ((txMasked < typeFlag) !== (masked < typeFlag)) return false;
+    return masked <= txMasked;
+  }
+
+  // --- evaluation -----------------------------------------------------------
+
+  run(script: Uint8Array, phase: ScriptPhase): { error: ScriptErrorCode; pc?: number } {
+    const sizeError = checkScriptSize(script.length);
+    if (sizeError !== ScriptError.OK) return { error: sizeError };
+
+    const chunks = parseScript(script);
+    const exec: boolean[] = [];
+    let codeStart = 0;
+    let seenStateSeparator = false;
+    this.opCount = 0;
+
+    for (const chunk of chunks) {
+      const executing = exec.every(Boolean);
+      try {
+        const next = this.step(chunk, script, exec, executing, codeStart, seenStateSeparator);
+        codeStart = next.codeStart;
+        seenStateSeparator = next.seenStateSeparator;
+        const stackError = checkStackSize(this.stack.length + this.altStack.length);
+        if (stackError !== ScriptError.OK) fail(stackError);
+        this.record(phase, chunk, executing || isConditional(chunk.opcode));
+      } catch (err) {
+        if (!(err instanceof ScriptFailure)) throw err;
+        this.record(phase, chunk, executing || isConditional(chunk.opcode), err.code);
+        return { error: err.code, pc: chunk.offset };
+      }
+    }
+
+    if (exec.length > 0) return { error: ScriptError.UNBALANCED_CONDITIONAL };
+    return { error: ScriptError.OK };
+  }
+
+  private record(phase: ScriptPhase, chunk: ScriptChunk, executed: boolean, error?: ScriptErrorCode): void {
+    if (!this.options.trace) return;
+    const step: TraceStep = {
+      phase,
+      pc: chunk.offset,
+      opcode: chunk.opcode,
+      opcodeName: getAsmOpcodeName(chunk.opcode),
+      executed,
+      stack: this.stack.map(item => item.slice()),
+      altStack: this.altStack.map(item => item.slice()),
+    };
+    if (error) step.error = error;
+    this.trace.push(step);
+  }
+
+  private step(
+    chunk: ScriptChunk,
+    script: Uint8Array,
+    exec: boolean[],
+    executing: boolean,
+    codeStart: number,
+    seenStateSeparator: boolean,
+  ): { codeStart: number; seenStateSeparator: boolean } {
+    const { opcode, data } = chunk;
+    const flags = this.flags;
+
+    if (chunk.truncated) fail(ScriptError.BAD_OPCODE);
+    if (data && data.length > Limits.MAX_SCRIPT_ELEMENT_SIZE) fail(ScriptError.PUSH_SIZE);
+    if (opcode > Opcodes.OP_16 && ++this.opCount > Limits.MAX_OPS_PER_SCRIPT) fail(ScriptError.OP_COUNT);
+
+    if (opcode === Opcodes.OP_STATESEPARATOR) {
+      if (seenStateSeparator || exec.length > 0) fail(ScriptError.INVALID_STATE_SEPARATOR_LOCATION);
+      seenStateSeparator = true;
+    }
+
+    if (executing && opcode <= Opcodes.OP_PUSHDATA4) {
+      if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_MINIMALDATA) && !isMinimalPush(opcode, data)) {
+        fail(ScriptError.MINIMALDATA);
+      }
+      this.push(data ?? new Uint8Array(0));
+      return { codeStart, seenStateSeparator };
+    }
+
+    if (!executing && !isConditional(opcode)) {
+      return { codeStart, seenStateSeparator };
+    }
+
+    // Every reference opcode except OP_PUSH_TX_STATE, which has its own flag
+    if (isReferenceOpcode(opcode) && opcode !== Opcodes.OP_PUSH_TX_STATE && !hasFlag(flags, ScriptFlags.SCRIPT_ENHANCED_REFERENCES)) {
+      fail(ScriptError.BAD_OPCODE);
+    }
+
+    switch (opcode) {
+      // Push value
+      case Opcodes.OP_1NEGATE:
+      case Opcodes.OP_1: case Opcodes.OP_2: case Opcodes.OP_3: case Opcodes.OP_4:
+      case Opcodes.OP_5: case Opcodes.OP_6: case Opcodes.OP_7: case Opcodes.OP_8:
+      case Opcodes.OP_9: case Opcodes.OP_10: case Opcodes.OP_11: case Opcodes.OP_12:
+      case Opcodes.OP_13: case Opcodes.OP_14: case Opcodes.OP_15: case Opcodes.OP_16:
+        this.pushNum(BigInt(opcode - (Opcodes.OP_1 - 1)));
+        break;
+
+      // Control
+      case Opcodes.OP_NOP:
+        break;
+
+      case Opcodes.OP_CHECKLOCKTIMEVERIFY: {
+        if (!hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY)) {
+          this.upgradableNop();
+          break;
+        }
+        const lockTime = this.toNum(this.top(), LOCKTIME_NUM_SIZE);
+        if (lockTime < 0n) fail(ScriptError.NEGATIVE_LOCKTIME);
+        if (!this.checkLockTime(lockTime)) fail(ScriptError.UNSATISFIED_LOCKTIME);
+        break;
+      }
+
+      case Opcodes.OP_CHECKSEQUENCEVERIFY: {
+        if (!hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY)) {
+          this.upgradableNop();
+          break;
+        }
+        const sequence = this.toNum(this.top(), LOCKTIME_NUM_SIZE);
+        if (sequence < 0n) fail(ScriptError.NEGATIVE_LOCKTIME);
+        if ((sequence & BigInt(SEQUENCE_LOCKTIME_DISABLE_FLAG)) !== 0n) break;
+        if (!this.checkSequence(sequence)) fail(ScriptError.UNSATISFIED_LOCKTIME);
+        break;
+      }
+
+      case Opcodes.OP_NOP1: case Opcodes.OP_NOP4: case Opcodes.OP_NOP5:
+      case Opcodes.OP_NOP6: case Opcodes.OP_NOP7: case Opcodes.OP_NOP8:
+      case Opcodes.OP_NOP9: case Opcodes.OP_NOP10:
+        this.upgradableNop();
+        break;
+
+      case Opcodes.OP_IF:
+      case Opcodes.OP_NOTIF: {
+        let value = false;
+        if (executing) {
+          if (this.stack.length < 1) fail(ScriptError.UNBALANCED_CONDITIONAL);
+          const top = this.pop();
+          if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_MINIMALIF) && (top.length > 1 || (top.length === 1 && top[0] !== 1))) {
+            fail(ScriptError.MINIMALIF);
+          }
+          value = castToBool(top);
+          if (opcode === Opcodes.OP_NOTIF) value = !value;
+        }
+        exec.push(value);
+        break;
+      }
+
+      case Opcodes.OP_ELSE:
+        if (exec.length === 0) fail(ScriptError.UNBALANCED_CONDITIONAL);
+        exec[exec.length - 1] = !exec[exec.length - 1];
+        break;
+
+      case Opcodes.OP_ENDIF:
+        if (exec.length === 0) fail(ScriptError.UNBALANCED_CONDITIONAL);
+        exec.pop();
+        break;
+
+      case Opcodes.OP_VERIFY:
+        if (!castToBool(this.top())) fail(ScriptError.VERIFY);
+        this.pop();
+        break;
+
+      case Opcodes.OP_RETURN:
+        fail(ScriptError.OP_RETURN);
+        break;
+
+      // Stack operations
+      case Opcodes.OP_TOALTSTACK:
+        this.altStack.push(this.pop());
+        break;
+
+      case Opcodes.OP_FROMALTSTACK:
+        if (this.altStack.length < 1) fail(ScriptError.INVALID_ALTSTACK_OPERATION);
+        this.stack.push(this.altStack.pop() as Uint8Array);
+        break;
+
+      case Opcodes.OP_2DROP:
+        this.need(2);
+        this.stack.length -= 2;
+        break;
+
+      case Opcodes.OP_2DUP:
+        this.need(2);
+        this.stack.push(this.top(2), this.top(2));
+        break;
+
+      case Opcodes.OP_3DUP:
+        this.need(3);
+        this.stack.push(this.top(3), this.top(3), this.top(3));
+        break;
+
+      case Opcodes.OP_2OVER:
+        this.need(4);
+        this.stack.push(this.top(4), this.top(4));
+        break;
+
+      case Opcodes.OP_2ROT: {
+        this.need(6);
+        const moved = this.stack.splice(this.stack.length - 6, 2);
+        this.stack.push(...moved);
+        break;
+      }
+
+      case Opcodes.OP_2SWAP: {
+        this.need(4);
+        const moved = this.stack.splice(this.stack.length - 4, 2);
+        this.stack.push(...moved);
+        break;
+      }
+
+      case Opcodes.OP_IFDUP:
+        if (castToBool(this.top())) this.stack.push(this.top());
+        break;
+
+      case Opcodes.OP_DEPTH:
+        this.pushNum(BigInt(this.stack.length));
+        break;
+
+      case Opcodes.OP_DROP:
+        this.pop();
+        break;
+
+      case Opcodes.OP_DUP:
+        this.stack.push(this.top());
+        break;
+
+      case Opcodes.OP_NIP:
+        this.need(2);
+        this.stack.splice(this.stack.length - 2, 1);
+        break;
+
+      case Opcodes.OP_OVER:
+        this.stack.push(this.top(2));
+        break;
+
+      case Opcodes.OP_PICK:
+      case Opcodes.OP_ROLL: {
+        this.need(2);
+        const n = this.popNum();
+        if (n < 0n || n >= BigInt(this.stack.length)) fail(ScriptError.INVALID_STACK_OPERATION);
+        const index = this.stack.length - 1 - Number(n);
+        const item = this.stack[index];
+        if (opcode === Opcodes.OP_ROLL) this.stack.splice(index, 1);
+        this.stack.push(item);
+        break;
+      }
+
+      case Opcodes.OP_ROT: {
+        this.need(3);
+        const [item] = this.stack.splice(this.stack.length - 3, 1);
+        this.stack.push(item);
+        break;
+      }
+
+      case Opcodes.OP_SWAP: {
+        this.need(2);
+        const [item] = this.stack.splice(this.stack.length - 2, 1);
+        this.stack.push(item);
+        break;
+      }
+
+      case Opcodes.OP_TUCK:
+        this.need(2);
+        this.stack.splice(this.stack.length - 2, 0, this.top());
+        break;
+
+      // Splice operations
+      case Opcodes.OP_CAT: {
+        this.need(2);
+        const b = this.pop();
+        const a = this.pop();
+        if (a.length + b.length > Limits.MAX_SCRIPT_ELEMENT_SIZE) fail(ScriptError.PUSH_SIZE);
+        const out = new Uint8Array(a.length + b.length);
+        out.set(a);
+        out.set(b, a.length);
+        this.stack.push(out);
+        break;
+      }
+
+      case Opcodes.OP_SPLIT: {
+        this.need(2);
+        const position = this.popNum();
+        const data = this.pop();
+        if (position < 0n || position > BigInt(data.length)) fail(ScriptError.INVALID_SPLIT_RANGE);
+        this.stack.push(data.slice(0, Number(position)), data.slice(Number(position)));
+        break;
+      }
+
+      case Opcodes.OP_NUM2BIN: {
+        this.need(2);
+        const size = this.popNum();
+        if (size < 0n || size > BigInt(Limits.MAX_SCRIPT_ELEMENT_SIZE)) fail(ScriptError.PUSH_SIZE);
+        const raw = minimallyEncodeScriptNum(this.pop());
+        if (raw.length > Number(size)) fail(ScriptError.IMPOSSIBLE_ENCODING);
+        const out = new Uint8Array(Number(size));
+        out.set(raw);
+        if (raw.length > 0 && raw.length < out.length) {
+          const signBit = raw[raw.length - 1] & 0x80;
+          out[raw.length - 1] &= 0x7f;
+          out[out.length - 1] |= signBit;
+        }
+        this.stack.push(out);
+        break;
+      }
+
+      case Opcodes.OP_BIN2NUM: {
+        const num = minimallyEncodeScriptNum(this.pop());
+        if (num.length > this.maxNumSize) fail(ScriptError.INVALID_NUMBER_RANGE);
+        this.stack.push(num);
+        break;
+      }
+
+      case Opcodes.OP_SIZE:
+        this.pushNum(BigInt(this.top().length));
+        break;
+
+      case Opcodes.OP_REVERSEBYTES:
+        this.stack.push(this.pop().slice().reverse());
+        break;
+
+      // Bit logic
+      case Opcodes.OP_INVERT:
+        this.stack.push(this.pop().map(byte => ~byte & 0xff));
+        break;
+
+      case Opcodes.OP_AND:
+      case Opcodes.OP_OR:
+      case Opcodes.OP_XOR: {
+        this.need(2);
+        const b = this.pop();
+        const a = this.pop();
+        if (a.length !== b.length) fail(ScriptError.INVALID_OPERAND_SIZE);
+        this.stack.push(a.map((byte, i) =>
+          opcode === Opcodes.OP_AND ? byte & b[i] : opcode === Opcodes.OP_OR ? byte | b[i] : byte ^ b[i]));
+        break;
+      }
+
+      case Opcodes.OP_EQUAL:
+      case Opcodes.OP_EQUALVERIFY: {
+        this.need(2);
+        const equal = bytesEqual(this.pop(), this.pop());
+        if (opcode === Opcodes.OP_EQUALVERIFY) {
+          if (!equal) fail(ScriptError.EQUALVERIFY);
+        } else {
+          this.pushBool(equal);
+        }
+        break;
+      }
+
+      case Opcodes.OP_LSHIFT:
+      case Opcodes.OP_RSHIFT: {
+        this.need(2);
+        const n = this.popNum();
+        if (n < 0n) fail(ScriptError.INVALID_NUMBER_RANGE);
+        const data = this.pop();
+        const bits = BigInt(data.length * 8);
+        let value = data.length > 0 ? BigInt('0x' + bytesToHex(data)) : 0n;
+        if (n >= bits) {
+          value = 0n;
+        } else {
+          value = opcode === Opcodes.OP_LSHIFT ? (value << n) & ((1n << bits) - 1n) : value >> n;
+        }
+        const hex = value.toString(16).padStart(data.length * 2, '0');
+        this.stack.push(data.map((_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16)));
+        break;
+      }
+
+      // Numeric
+      case Opcodes.OP_1ADD: case Opcodes.OP_1SUB: case Opcodes.OP_2MUL: case Opcodes.OP_2DIV:
+      case Opcodes.OP_NEGATE: case Opcodes.OP_ABS: case Opcodes.OP_NOT: case Opcodes.OP_0NOTEQUAL: {
+        const n = this.popNum();
+        switch (opcode) {
+          case Opcodes.OP_1ADD: this.pushNum(n + 1n); break;
+          case Opcodes.OP_1SUB: this.pushNum(n - 1n); break;
+          case Opcodes.OP_2MUL: this.pushNum(n * 2n); break;
+          case Opcodes.OP_2DIV: this.pushNum(n / 2n); break;
+          case Opcodes.OP_NEGATE: this.pushNum(-n); break;
+          case Opcodes.OP_ABS: this.pushNum(n < 0n ? -n : n); break;
+          case Opcodes.OP_NOT: this.pushBool(n === 0n); break;
+          default: this.pushBool(n !== 0n); break;
+        }
+        break;
+      }
+
+      case Opcodes.OP_ADD: case Opcodes.OP_SUB: case Opcodes.OP_MUL: case Opcodes.OP_DIV:
+      case Opcodes.OP_MOD: case Opcodes.OP_BOOLAND: case Opcodes.OP_BOOLOR: case Opcodes.OP_NUMEQUAL:
+      case Opcodes.OP_NUMEQUALVERIFY: case Opcodes.OP_NUMNOTEQUAL: case Opcodes.OP_LESSTHAN:
+      case Opcodes.OP_GREATERTHAN: case Opcodes.OP_LESSTHANOREQUAL: case Opcodes.OP_GREATERTHANOREQUAL:
+      case Opcodes.OP_MIN: case Opcodes.OP_MAX: {
+        this.need(2);
+        const b = this.popNum();
+        const a = this.popNum();
+        switch (opcode) {
+          case Opcodes.OP_ADD: this.pushNum(a + b); break;
+          case Opcodes.OP_SUB: this.pushNum(a - b); break;
+          case Opcodes.OP_MUL: this.pushNum(a * b); break;
+          case Opcodes.OP_DIV:
+            if (b === 0n) fail(ScriptError.DIV_BY_ZERO);
+            this.pushNum(a / b);
+            break;
+          case Opcodes.OP_MOD:
+            if (b === 0n) fail(ScriptError.MOD_BY_ZERO);
+            this.pushNum(a % b);
+            break;
+          case Opcodes.OP_BOOLAND: this.pushBool(a !== 0n && b !== 0n); break;
+          case Opcodes.OP_BOOLOR: this.pushBool(a !== 0n || b !== 0n); break;
+          case Opcodes.OP_NUMEQUAL: this.pushBool(a === b); break;
+          case Opcodes.OP_NUMEQUALVERIFY:
+            if (a !== b) fail(ScriptError.NUMEQUALVERIFY);
+            break;
+          case Opcodes.OP_NUMNOTEQUAL: this.pushBool(a !== b); break;
+          case Opcodes.OP_LESSTHAN: this.pushBool(a < b); break;
+          case Opcodes.OP_GREATERTHAN: this.pushBool(a > b); break;
+          case Opcodes.OP_LESSTHANOREQUAL: this.pushBool(a <= b); break;
+          case Opcodes.OP_GREATERTHANOREQUAL: this.pushBool(a >= b); break;
+          case Opcodes.OP_MIN: this.pushNum(a < b ? a : b); break;
+          default: this.pushNum(a > b ? a : b); break;
+        }
+        break;
+      }
+
+      case Opcodes.OP_WITHIN: {
+        this.need(3);
+        const max = this.popNum();
+        const min = this.popNum();
+        const x = this.popNum();
+        this.pushBool(min <= x && x < max);
+        break;
+      }
+
+      // Crypto
+      case Opcodes.OP_RIPEMD160: this.stack.push(ripemd160(this.pop())); break;
+      case Opcodes.OP_SHA1: this.stack.push(sha1(this.pop())); break;
+      case Opcodes.OP_SHA256: this.stack.push(sha256(this.pop())); break;
+      case Opcodes.OP_HASH160: this.stack.push(hash160(this.pop())); break;
+      case Opcodes.OP_HASH256: this.stack.push(hash256(this.pop())); break;
+      case Opcodes.OP_SHA512_256: this.stack.push(sha512_256(this.pop())); break;
+      case Opcodes.OP_HASH512_256: this.stack.push(hash512_256(this.pop())); break;
+
+      case Opcodes.OP_CODESEPARATOR:
+        codeStart = chunk.offset + 1;
+        break;
+
+      case Opcodes.OP_CHECKSIG:
+      case Opcodes.OP_CHECKSIGVERIFY: {
+        this.need(2);
+        const pubKey = this.pop();
+        const sig = this.pop();
+        assertOk(checkSignatureEncoding(sig, flags));
+        assertOk(checkPubKeyEncoding(pubKey, flags));
+        const success = this.checkSig(sig, pubKey, script.slice(codeStart));
+        if (sig.length > 0) this.sigChecks++;
+        if (!success && hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_NULLFAIL) && sig.length > 0) {
+          fail(ScriptError.SIG_NULLFAIL);
+        }
+        if (opcode === Opcodes.OP_CHECKSIGVERIFY) {
+          if (!success) fail(ScriptError.CHECKSIGVERIFY);
+        } else {
+          this.pushBool(success);
+        }
+        break;
+      }
+
+      case Opcodes.OP_CHECKDATASIG:
+      case Opcodes.OP_CHECKDATASIGVERIFY: {
+        this.need(3);
+        const pubKey = this.pop();
+        const message = this.pop();
+        const sig = this.pop();
+        assertOk(checkDataSignatureEncoding(sig, flags));
+        assertOk(checkPubKeyEncoding(pubKey, flags));
+        const success = sig.length > 0 && this.checker.checkDataSig(sig, message, pubKey, flags);
+        if (sig.length > 0) this.sigChecks++;
+        if (!success && hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_NULLFAIL) && sig.length > 0) {
+          fail(ScriptError.SIG_NULLFAIL);
+        }
+        if (opcode === Opcodes.OP_CHECKDATASIGVERIFY) {
+          if (!success) fail(ScriptError.CHECKDATASIGVERIFY);
+        } else {
+          this.pushBool(success);
+        }
+        break;
+      }
+
+      case Opcodes.OP_CHECKMULTISIG:
+      case Opcodes.OP_CHECKMULTISIGVERIFY: {
+        const success = this.checkMultiSig(script.slice(codeStart));
+        if (opcode === Opcodes.OP_CHECKMULTISIGVERIFY) {
+          if (!success) fail(ScriptError.CHECKMULTISIGVERIFY);
+        } else {
+          this.pushBool(success);
+        }
+        break;
+      }
+
+      // State separator
+      case Opcodes.OP_STATESEPARATOR:
+        break;
+
+      case Opcodes.OP_STATESEPARATORINDEX_UTXO:
+      case Opcodes.OP_STATESEPARATORINDEX_OUTPUT: {
+        const index = this.popIndex();
+        const target = opcode === Opcodes.OP_STATESEPARATORINDEX_UTXO
+          ? this.inputAt(index).utxo.script
+          : this.outputAt(index).script;
+        this.pushNum(BigInt(Math.max(findStateSeparator(target), 0)));
+        break;
+      }
+
+      // Native introspection
+      case Opcodes.OP_INPUTINDEX: case Opcodes.OP_ACTIVEBYTECODE: case Opcodes.OP_TXVERSION:
+      case Opcodes.OP_TXINPUTCOUNT: case Opcodes.OP_TXOUTPUTCOUNT: case Opcodes.OP_TXLOCKTIME:
+      case Opcodes.OP_UTXOVALUE: case Opcodes.OP_UTXOBYTECODE: case Opcodes.OP_OUTPOINTTXHASH:
+      case Opcodes.OP_OUTPOINTINDEX: case Opcodes.OP_INPUTBYTECODE: case Opcodes.OP_INPUTSEQUENCENUMBER:
+      case Opcodes.OP_OUTPUTVALUE: case Opcodes.OP_OUTPUTBYTECODE:
+        if (!hasFlag(flags, ScriptFlags.SCRIPT_NATIVE_INTROSPECTION)) fail(ScriptError.BAD_OPCODE);
+        this.introspect(opcode, script, codeStart);
+        break;
+
+      // References
+      case Opcodes.OP_PUSHINPUTREF:
+      case Opcodes.OP_REQUIREINPUTREF:
+      case Opcodes.OP_PUSHINPUTREFSINGLETON:
+        this.checkInputRef(opcode, data as Uint8Array);
+        this.stack.push(data as Uint8Array);
+        break;
+
+      case Opcodes.OP_DISALLOWPUSHINPUTREF:
+      case Opcodes.OP_DISALLOWPUSHINPUTREFSIBLING:
+        this.stack.push(data as Uint8Array);
+        break;
+
+      case Opcodes.OP_REFHASHDATASUMMARY_UTXO: {
+        const index = this.popIndex();
+        const { utxo } = this.inputAt(index);
+        this.stack.push(hash256(getOutputDataSummary(utxo, this.utxoRefs[index])));
+        break;
+      }
+
+      case Opcodes.OP_REFHASHDATASUMMARY_OUTPUT: {
+        const index = this.popIndex();
+        const output = this.outputAt(index);
+        this.stack.push(hash256(getOutputDataSummary(output, this.outputRefs[index])));
+        break;
+      }
+
+      case Opcodes.OP_REFHASHVALUESUM_UTXOS:
+      case Opcodes.OP_REFHASHVALUESUM_OUTPUTS: {
+        const refsHash = this.popHash();
+        const utxos = opcode === Opcodes.OP_REFHASHVALUESUM_UTXOS;
+        const outputs = utxos ? this.context.utxos : this.context.tx.outputs;
+        const refs = utxos ? this.utxoRefs : this.outputRefs;
+        let sum = 0n;
+        outputs.forEach((output, i) => {
+          if (bytesEqual(getRefsHash(refs[i]), refsHash)) sum += output.value;
+        });
+        this.pushNum(sum);
+        break;
+      }
+
+      case Opcodes.OP_REFTYPE_UTXO:
+      case Opcodes.OP_REFTYPE_OUTPUT: {
+        const ref = this.popRef();
+        const refs = opcode === Opcodes.OP_REFTYPE_UTXO ? this.utxoRefs : this.outputRefs;
+        const type = refs.some(r => r.singleton.has(ref)) ? 2n : refs.some(r => r.normal.has(ref)) ? 1n : 0n;
+        this.pushNum(type);
+        break;
+      }
+
+      case Opcodes.OP_REFVALUESUM_UTXOS: case Opcodes.OP_REFVALUESUM_OUTPUTS:
+      case Opcodes.OP_REFOUTPUTCOUNT_UTXOS: case Opcodes.OP_REFOUTPUTCOUNT_OUTPUTS:
+      case Opcodes.OP_REFOUTPUTCOUNTZEROVALUED_UTXOS: case Opcodes.OP_REFOUTPUTCOUNTZEROVALUED_OUTPUTS: {
+        const ref = this.popRef();
+        const utxos = opcode === Opcodes.OP_REFVALUESUM_UTXOS ||
+          opcode === Opcodes.OP_REFOUTPUTCOUNT_UTXOS ||
+          opcode === Opcodes.OP_REFOUTPUTCOUNTZEROVALUED_UTXOS;
+        const outputs = utxos ? this.context.utxos : this.context.tx.outputs;
+        const refs = utxos ? this.utxoRefs : this.outputRefs;
+        const matching = outputs.filter((_, i) => refs[i].all.includes(ref));
+        if (opcode === Opcodes.OP_REFVALUESUM_UTXOS || opcode === Opcodes.OP_REFVALUESUM_OUTPUTS) {
+          this.pushNum(matching.reduce((sum, output) => sum + output.value, 0n));
+        } else if (opcode === Opcodes.OP_REFOUTPUTCOUNT_UTXOS || opcode === Opcodes.OP_REFOUTPUTCOUNT_OUTPUTS) {
+          this.pushNum(BigInt(matching.length));
+        } else {
+          this.pushNum(BigInt(matching.filter(output => output.value === 0n).length));
+        }
+        break;
+      }
+
+      case Opcodes.OP_REFDATASUMMARY_UTXO:
+      case Opcodes.OP_REFDATASUMMARY_OUTPUT: {
+        const index = this.popIndex();
+        const refs = opcode === Opcodes.OP_REFDATASUMMARY_UTXO
+          ? (this.inputAt(index), this.utxoRefs[index])
+          : (this.outputAt(index), this.outputRefs[index]);
+        this.push(new Uint8Array(refs.all.flatMap(hex => [...hexToBytes(hex)])));
+        break;
+      }
+
+      case Opcodes.OP_CODESCRIPTHASHVALUESUM_UTXOS: case Opcodes.OP_CODESCRIPTHASHVALUESUM_OUTPUTS:
+      case Opcodes.OP_CODESCRIPTHASHOUTPUTCOUNT_UTXOS: case Opcodes.OP_CODESCRIPTHASHOUTPUTCOUNT_OUTPUTS:
+      case Opcodes.OP_CODESCRIPTHASHZEROVALUEDOUTPUTCOUNT_UTXOS:
+      case Opcodes.OP_CODESCRIPTHASHZEROVALUEDOUTPUTCOUNT_OUTPUTS: {
+        const codeScriptHash = this.popHash();
+        const utxos = opcode === Opcodes.OP_CODESCRIPTHASHVALUESUM_UTXOS ||
+          opcode === Opcodes.OP_CODESCRIPTHASHOUTPUTCOUNT_UTXOS ||
+          opcode === Opcodes.OP_CODESCRIPTHASHZEROVALUEDOUTPUTCOUNT_UTXOS;
+        const outputs = utxos ? this.context.utxos : this.context.tx.outputs;
+        const matching = outputs.filter(output => bytesEqual(splitStateScript(output.script).codeScriptHash, codeScriptHash));
+        if (opcode === Opcodes.OP_CODESCRIPTHASHVALUESUM_UTXOS || opcode === Opcodes.OP_CODESCRIPTHASHVALUESUM_OUTPUTS) {
+          this.pushNum(matching.reduce((sum, output) => sum + output.value, 0n));
+        } else if (opcode === Opcodes.OP_CODESCRIPTHASHOUTPUTCOUNT_UTXOS || opcode === Opcodes.OP_CODESCRIPTHASHOUTPUTCOUNT_OUTPUTS) {
+          this.pushNum(BigInt(matching.length));
+        } else {
+          this.pushNum(BigInt(matching.filter(output => output.value === 0n).length));
+        }
+        break;
+      }
+
+      case Opcodes.OP_CODESCRIPTBYTECODE_UTXO:
+      case Opcodes.OP_STATESCRIPTBYTECODE_UTXO: {
+        const { utxo } = this.inputAt(this.popIndex());
+        const split = splitStateScript(utxo.script);
+        this.push(opcode === Opcodes.OP_CODESCRIPTBYTECODE_UTXO ? split.codeScript : split.stateScript);
+        break;
+      }
+
+      case Opcodes.OP_CODESCRIPTBYTECODE_OUTPUT:
+      case Opcodes.OP_STATESCRIPTBYTECODE_OUTPUT: {
+        const output = this.outputAt(this.popIndex());
+        const split = splitStateScript(output.script);
+        this.push(opcode === Opcodes.OP_CODESCRIPTBYTECODE_OUTPUT ? split.codeScript : split.stateScript);
+        break;
+      }
+
+      default:
+        fail(ScriptError.BAD_OPCODE);
+    }
+
+    return { codeStart, seenStateSeparator };
+  }
+
+  private upgradableNop(): void {
+    if (hasFlag(this.flags, ScriptFlags.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS)) {
+      fail(ScriptError.DISCOURAGE_UPGRADABLE_NOPS);
+    }
+  }
+
+  private introspect(opcode: number, script: Uint8Array, codeStart: number): void {
+    const { tx, inputIndex } = this.context;
+    switch (opcode) {
+      case Opcodes.OP_INPUTINDEX: this.pushNum(BigInt(inputIndex)); break;
+      case Opcodes.OP_ACTIVEBYTECODE: this.push(script.slice(codeStart)); break;
+      case Opcodes.OP_TXVERSION: this.pushNum(BigInt(tx.version)); break;
+      case Opcodes.OP_TXINPUTCOUNT: this.pushNum(BigInt(tx.inputs.length)); break;
+      case Opcodes.OP_TXOUTPUTCOUNT: this.pushNum(BigInt(tx.outputs.length)); break;
+      case Opcodes.OP_TXLOCKTIME: this.pushNum(BigInt(tx.lockTime)); break;
+      case Opcodes.OP_UTXOVALUE: this.pushNum(this.inputAt(this.popIndex()).utxo.value); break;
+      case Opcodes.OP_UTXOBYTECODE: this.push(this.inputAt(this.popIndex()).utxo.script); break;
+      case Opcodes.OP_OUTPOINTTXHASH:
+        this.stack.push(refToBytes(this.inputAt(this.popIndex()).input.prevout).slice(0, 32));
+        break;
+      case Opcodes.OP_OUTPOINTINDEX: this.pushNum(BigInt(this.inputAt(this.popIndex()).input.prevout.vout)); break;
+      case Opcodes.OP_INPUTBYTECODE: this.push(this.inputAt(this.popIndex()).input.script); break;
+      case Opcodes.OP_INPUTSEQUENCENUMBER: this.pushNum(BigInt(this.inputAt(this.popIndex()).input.sequence)); break;
+      case Opcodes.OP_OUTPUTVALUE: this.pushNum(this.outputAt(this.popIndex()).value); break;
+      default: this.push(this.outputAt(this.popIndex()).script); break;
+    }
+  }
+}
+
+function toResult(interpreter: Interpreter, error: ScriptErrorCode, phase?: ScriptPhase, pc?: number): ScriptResult {
+  const result: ScriptResult = {
+    success: error === ScriptError.OK,
+    error,
+    stack: interpreter.stack,
+    altStack: interpreter.altStack,
+    opCount: interpreter.opCount,
+    sigChecks: interpreter.sigChecks,
+    trace: interpreter.trace,
+  };
+  if (error !== ScriptError.OK) {
+    if (phase) result.errorPhase = phase;
+    if (pc !== undefined) result.errorPc = pc;
+  }
+  return result;
+}
+
+function isPushOnly(script: Uint8Array): boolean {
+  return parseScript(script).every(chunk => !chunk.truncated && chunk.opcode <= Opcodes.OP_16);
+}
+
+function isP2SH(script: Uint8Array): boolean {
+  return script.length === 23 &&
+    script[0] === Opcodes.OP_HASH160 &&
+    script[1] === Limits.HASH160_SIZE &&
+    script[22] === Opcodes.OP_EQUAL;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Evaluate a single script against an initial stack
+ */
+export function evalScript(
+  script: Uint8Array,
+  stack: Uint8Array[] = [],
+  flags: number = ScriptFlags.SCRIPT_VERIFY_NONE,
+  options: InterpreterOptions = {}
+): ScriptResult {
+  const interpreter = new Interpreter([...stack], flags, options);
+  const { error, pc } = interpreter.run(script, 'script');
+  return toResult(interpreter, error, 'script', pc);
+}
+
+/**
+ * Verify an unlocking script against a locking script, including P2SH
+ * redeem script evaluation and the SIGPUSHONLY / CLEANSTACK / INPUT_SIGCHECKS rules
+ */
+export function verifyScript(
+  scriptSig: Uint8Array,
+  scriptPubKey: Uint8Array,
+  flags: number = ScriptFlags.SCRIPT_VERIFY_NONE,
+  options: InterpreterOptions = {}
+): ScriptResult {
+  const interpreter = new Interpreter([], flags, options);
+
+  if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_SIGPUSHONLY) && !isPushOnly(scriptSig)) {
+    return toResult(interpreter, ScriptError.SIG_PUSHONLY, 'scriptSig');
+  }
+
+  let { error, pc } = interpreter.run(scriptSig, 'scriptSig');
+  if (error !== ScriptError.OK) return toResult(interpreter, error, 'scriptSig', pc);
+
+  const stackCopy = [...interpreter.stack];
+  interpreter.altStack = [];
+
+  ({ error, pc } = interpreter.run(scriptPubKey, 'scriptPubKey'));
+  if (error !== ScriptError.OK) return toResult(interpreter, error, 'scriptPubKey', pc);
+  if (interpreter.stack.length === 0 || !castToBool(interpreter.stack[interpreter.stack.length - 1])) {
+    return toResult(interpreter, ScriptError.EVAL_FALSE, 'scriptPubKey');
+  }
+
+  if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_P2SH) && isP2SH(scriptPubKey)) {
+    if (!isPushOnly(scriptSig)) return toResult(interpreter, ScriptError.SIG_PUSHONLY, 'scriptSig');
+
+    interpreter.stack = stackCopy;
+    interpreter.altStack = [];
+    const redeemScript = interpreter.stack.pop() as Uint8Array;
+
+    ({ error, pc } = interpreter.run(redeemScript, 'redeemScript'));
+    if (error !== ScriptError.OK) return toResult(interpreter, error, 'redeemScript', pc);
+    if (interpreter.stack.length === 0 || !castToBool(interpreter.stack[interpreter.stack.length - 1])) {
+      return toResult(interpreter, ScriptError.EVAL_FALSE, 'redeemScript');
+    }
+  }
+
+  if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_CLEANSTACK) && interpreter.stack.length !== 1) {
+    return toResult(interpreter, ScriptError.CLEANSTACK);
+  }
+
+  if (
+    hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_INPUT_SIGCHECKS) &&
+    interpreter.sigChecks > getMaxInputSigChecks(scriptSig.length)
+  ) {
+    return toResult(interpreter, ScriptError.INPUT_SIGCHECKS);
+  }
+
+  return toResult(interpreter, ScriptError.OK);
+}
+
+export default {
+  createSignatureChecker,
+  evalScript,
+  verifyScript,
+};
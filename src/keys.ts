@@ -0,0 +1,135 @@
+/**
+ * @radiantblockchain/constants - Private Keys
+ *
+ * secp256k1 private key validation and Wallet Import Format (WIF), as
+ * produced by Radiant-Core's `dumpprivkey`. Testnet and regtest share the
+ * private key version byte, so `decodeWif` reports every matching network.
+ *
+ * Reference: Radiant-Core src/key_io.cpp
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { base58CheckEncode, base58CheckDecode, bytesToHex } from './encoding';
+import { mainnet, getNetworks } from './networks';
+import type { NetworkParams } from './networks';
+
+/**
+ * Order of the secp256k1 group
+ */
+export const SECP256K1_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/**
+ * Size of a private key (32 bytes)
+ */
+export const PRIVATE_KEY_SIZE = 32;
+
+/** Suffix byte marking a WIF key whose public key is compressed */
+const WIF_COMPRESSED_FLAG = 0x01;
+
+/**
+ * WIF encoding options
+ */
+export interface WifOptions {
+  /** Whether the matching public key is compressed (default true) */
+  compressed?: boolean;
+  /** Network whose version byte is used (default mainnet) */
+  network?: NetworkParams;
+}
+
+/**
+ * A decoded WIF key
+ */
+export interface DecodedWif {
+  privateKey: Uint8Array;
+  compressed: boolean;
+  /** The network, when exactly one network uses this version byte */
+  network?: NetworkParams;
+  /** Every network that uses this version byte */
+  networks: NetworkParams[];
+  /** True when more than one network matches (e.g. testnet and regtest) */
+  ambiguous: boolean;
+}
+
+/**
+ * Check that a private key is 32 bytes and within [1, n-1]
+ */
+export function isValidPrivateKey(privateKey: Uint8Array): boolean {
+  if (privateKey.length !== PRIVATE_KEY_SIZE) return false;
+  const value = BigInt('0x' + bytesToHex(privateKey));
+  return value > 0n && value < SECP256K1_ORDER;
+}
+
+/**
+ * Compute the public key for a private key
+ * @throws Error if the key is not a valid secp256k1 private key
+ */
+export function getPublicKey(privateKey: Uint8Array, compressed = true): Uint8Array {
+  if (!isValidPrivateKey(privateKey)) {
+    throw new Error('Private key must be 32 bytes in the range [1, n-1]');
+  }
+  return secp256k1.getPublicKey(privateKey, compressed);
+}
+
+/**
+ * Encode a private key as WIF
+ * @throws Error if the key is not a valid secp256k1 private key
+ */
+export function encodeWif(privateKey: Uint8Array, options: WifOptions = {}): string {
+  const { compressed = true, network = mainnet } = options;
+  if (!isValidPrivateKey(privateKey)) {
+    throw new Error('Private key must be 32 bytes in the range [1, n-1]');
+  }
+  const payload = new Uint8Array(1 + PRIVATE_KEY_SIZE + (compressed ? 1 : 0));
+  payload[0] = network.privateKey;
+  payload.set(privateKey, 1);
+  if (compressed) payload[payload.length - 1] = WIF_COMPRESSED_FLAG;
+  return base58CheckEncode(payload);
+}
+
+/**
+ * Decode a WIF private key. When `network` is given the key must belong to it.
+ * @throws Error describing why the key is invalid
+ */
+export function decodeWif(wif: string, network?: NetworkParams): DecodedWif {
+  const payload = base58CheckDecode(wif);
+
+  let compressed: boolean;
+  if (payload.length === 1 + PRIVATE_KEY_SIZE) {
+    compressed = false;
+  } else if (payload.length === 2 + PRIVATE_KEY_SIZE) {
+    if (payload[payload.length - 1] !== WIF_COMPRESSED_FLAG) {
+      throw new Error(`Invalid WIF compression flag: 0x${payload[payload.length - 1].toString(16).padStart(2, '0')}`);
+    }
+    compressed = true;
+  } else {
+    throw new Error(`Invalid WIF length: expected ${1 + PRIVATE_KEY_SIZE} or ${2 + PRIVATE_KEY_SIZE} bytes, got ${payload.length}`);
+  }
+
+  const version = payload[0];
+  const candidates = network ? [network] : getNetworks();
+  const networks = candidates.filter(n => n.privateKey === version);
+  if (networks.length === 0) {
+    const hex = version.toString(16).padStart(2, '0');
+    throw new Error(network
+      ? `WIF version 0x${hex} does not belong to ${network.name}`
+      : `Unknown WIF version: 0x${hex}`);
+  }
+
+  const privateKey = payload.slice(1, 1 + PRIVATE_KEY_SIZE);
+  if (!isValidPrivateKey(privateKey)) {
+    throw new Error('WIF private key is outside the secp256k1 range [1, n-1]');
+  }
+
+  const decoded: DecodedWif = { privateKey, compressed, networks, ambiguous: networks.length > 1 };
+  if (networks.length === 1) decoded.network = networks[0];
+  return decoded;
+}
+
+export default {
+  SECP256K1_ORDER,
+  PRIVATE_KEY_SIZE,
+  isValidPrivateKey,
+  getPublicKey,
+  encodeWif,
+  decodeWif,
+};
@@ -7,6 +7,9 @@
  * Reference: Radiant-Core src/script/script.h
  */
 
+import { ScriptError } from './errors';
+import type { ScriptErrorCode } from './errors';
+
 export const Limits = {
   /**
    * Maximum number of bytes pushable to the stack (legacy Bitcoin)
@@ -33,6 +36,16 @@ export const Limits = {
    */
   MAX_SCRIPT_SIZE: 32_000_000,
 
+  /**
+   * Maximum number of signature checks per transaction (SCRIPT_ENFORCE_SIGCHECKS)
+   */
+  MAX_TX_SIGCHECKS: 3000,
+
+  /**
+   * Maximum block size divided by this gives the block signature check limit
+   */
+  BLOCK_MAXBYTES_MAXSIGCHECKS_RATIO: 141,
+
   /**
    * Maximum number of values on script interpreter stack
    */
@@ -152,17 +165,122 @@ export function exceedsOpCount(count: number): boolean {
 }
 
 /**
- * Convert RXD to photons
+ * Maximum signature checks an input may perform under
+ * SCRIPT_VERIFY_INPUT_SIGCHECKS, given its scriptSig size
+ */
+export function getMaxInputSigChecks(scriptSigSize: number): number {
+  return Math.floor((scriptSigSize + 60) / 43);
+}
+
+/**
+ * Maximum signature checks in a block of the given size
+ */
+export function getMaxBlockSigChecks(maxBlockSize: number = Limits.MAX_BLOCK_SIZE): number {
+  return Math.floor(maxBlockSize / Limits.BLOCK_MAXBYTES_MAXSIGCHECKS_RATIO);
+}
+
+/**
+ * Check an element size, returning `PUSH_SIZE` if it is too large
+ */
+export function checkElementSize(size: number): ScriptErrorCode {
+  return exceedsElementSize(size) ? ScriptError.PUSH_SIZE : ScriptError.OK;
+}
+
+/**
+ * Check a script size, returning `SCRIPT_SIZE` if it is too large
+ */
+export function checkScriptSize(size: number): ScriptErrorCode {
+  return exceedsScriptSize(size) ? ScriptError.SCRIPT_SIZE : ScriptError.OK;
+}
+
+/**
+ * Check a combined stack depth, returning `STACK_SIZE` if it is too large
+ */
+export function checkStackSize(depth: number): ScriptErrorCode {
+  return exceedsStackSize(depth) ? ScriptError.STACK_SIZE : ScriptError.OK;
+}
+
+/**
+ * Check an op count, returning `OP_COUNT` if it is too large
+ */
+export function checkOpCount(count: number): ScriptErrorCode {
+  return exceedsOpCount(count) ? ScriptError.OP_COUNT : ScriptError.OK;
+}
+
+/**
+ * Convert RXD to photons. Goes through floating point; use `parseRxd` for
+ * exact amounts.
  */
 export function toPhotons(rxd: number): bigint {
   return BigInt(Math.round(rxd * Limits.COIN));
 }
 
 /**
- * Convert photons to RXD
+ * Convert photons to RXD. Lossy above 2^53 photons; use `formatRxd` for
+ * exact amounts.
  */
 export function toRxd(photons: bigint): number {
   return Number(photons) / Limits.COIN;
 }
 
+/** Decimal places in one RXD */
+const RXD_DECIMALS = 8;
+
+/**
+ * Parse a decimal RXD amount string into photons without floating point
+ * @throws Error if the string is malformed, has more than 8 decimal places,
+ * or is outside [0, MAX_MONEY]
+ */
+export function parseRxd(amount: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (!match) {
+    throw new Error(`Invalid RXD amount: "${amount}"`);
+  }
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > RXD_DECIMALS) {
+    throw new Error(`RXD amount has more than ${RXD_DECIMALS} decimal places: "${amount}"`);
+  }
+  const photons = BigInt(whole) * BigInt(Limits.COIN) + BigInt(fraction.padEnd(RXD_DECIMALS, '0'));
+  if (photons > Limits.MAX_MONEY) {
+    throw new Error(`RXD amount exceeds MAX_MONEY: "${amount}"`);
+  }
+  return photons;
+}
+
+/**
+ * Options for `formatRxd`
+ */
+export interface FormatRxdOptions {
+  /** Minimum decimal places to show, 0-8 (default 0); trailing zeros beyond it are trimmed */
+  minDecimals?: number;
+  /** Separator inserted between groups of three integer digits (default none) */
+  groupSeparator?: string;
+  /** Append " RXD" (default false) */
+  unit?: boolean;
+}
+
+/**
+ * Format photons as a decimal RXD string, exactly for any bigint
+ * @throws Error if minDecimals is not an integer from 0 to 8
+ */
+export function formatRxd(photons: bigint, options: FormatRxdOptions = {}): string {
+  const { minDecimals = 0, groupSeparator = '', unit = false } = options;
+  if (!Number.isInteger(minDecimals) || minDecimals < 0 || minDecimals > RXD_DECIMALS) {
+    throw new Error(`minDecimals must be an integer from 0 to ${RXD_DECIMALS}, got ${minDecimals}`);
+  }
+  const negative = photons < 0n;
+  const absolute = negative ? -photons : photons;
+  const coin = BigInt(Limits.COIN);
+
+  let whole = (absolute / coin).toString();
+  if (groupSeparator) {
+    whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+  }
+  let fraction = (absolute % coin).toString().padStart(RXD_DECIMALS, '0').replace(/0+$/, '');
+  fraction = fraction.padEnd(minDecimals, '0');
+
+  const formatted = (negative ? '-' : '') + whole + (fraction ? '.' + fraction : '');
+  return unit ? `${formatted} RXD` : formatted;
+}
+
 export default Limits;
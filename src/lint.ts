@@ -0,0 +1,172 @@
+/**
+ * @radiantblockchain/constants - Script Linter
+ *
+ * Static checks that catch scripts the node would reject, without executing
+ * them. Findings carry the `ScriptError` code the interpreter would report.
+ */
+
+import { Opcodes, OpcodeCategory, getOpcodeInfo, getOpcodeName } from './opcodes';
+import { checkElementSize, checkScriptSize } from './limits';
+import { ScriptFlags, hasFlag, getFlagNames } from './flags';
+import { ScriptError, getScriptErrorString } from './errors';
+import type { ScriptErrorCode } from './errors';
+import { parseScript, isMinimalPush } from './script';
+
+/**
+ * How certain a finding is to cause a failure
+ */
+export const LintSeverity = {
+  /** The script fails whenever this point is reached */
+  ERROR: 'error',
+  /** The script fails only if this opcode is executed */
+  WARNING: 'warning',
+} as const;
+
+export type LintSeverityName = (typeof LintSeverity)[keyof typeof LintSeverity];
+
+/**
+ * A problem found by `lintScript`
+ */
+export interface LintFinding {
+  code: ScriptErrorCode;
+  severity: LintSeverityName;
+  /** True when the problem comes from a policy flag rather than consensus */
+  policy: boolean;
+  /** Byte offset of the offending opcode, or -1 for whole-script problems */
+  offset: number;
+  opcode?: number;
+  message: string;
+}
+
+/**
+ * Linter options
+ */
+export interface LintOptions {
+  /** Verification flags the script will be checked under */
+  flags?: number;
+  /** Lint as an unlocking script (enables the SIGPUSHONLY check) */
+  scriptSig?: boolean;
+}
+
+/** Verification flags that are consensus rules; everything else is policy */
+const CONSENSUS_FLAGS =
+  ScriptFlags.SCRIPT_VERIFY_P2SH |
+  ScriptFlags.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY |
+  ScriptFlags.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY |
+  ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID |
+  ScriptFlags.SCRIPT_64_BIT_INTEGERS |
+  ScriptFlags.SCRIPT_NATIVE_INTROSPECTION |
+  ScriptFlags.SCRIPT_ENHANCED_REFERENCES |
+  ScriptFlags.SCRIPT_PUSH_TX_STATE;
+
+function isUpgradableNop(opcode: number, flags: number): boolean {
+  const info = getOpcodeInfo(opcode);
+  if (!info) return false;
+  if (info.category === OpcodeCategory.NOP) return opcode !== Opcodes.OP_NOP;
+  // CLTV and CSV behave as NOPs until their flag is active
+  return info.category === OpcodeCategory.LOCKTIME && info.requiredFlag !== undefined && !hasFlag(flags, info.requiredFlag);
+}
+
+/**
+ * Check a script for problems the interpreter would reject under the given
+ * flags. Findings are returned in script order.
+ *
+ * Checks: script and push sizes, truncated pushes, non-minimal pushes
+ * (MINIMALDATA), non-push opcodes in a scriptSig (SIGPUSHONLY), upgradable
+ * NOPs (DISCOURAGE_UPGRADABLE_NOPS), OP_VERIF/OP_VERNOTIF, reserved and
+ * unassigned opcodes, opcodes whose flag is not active, and unbalanced
+ * conditionals.
+ */
+export function lintScript(script: Uint8Array, options: LintOptions = {}): LintFinding[] {
+  const flags = options.flags ?? ScriptFlags.SCRIPT_VERIFY_NONE;
+  const findings: LintFinding[] = [];
+
+  const report = (
+    code: ScriptErrorCode,
+    severity: LintSeverityName,
+    offset: number,
+    opcode?: number,
+    detail?: string,
+    flag?: number,
+  ) => {
+    const finding: LintFinding = {
+      code,
+      severity,
+      policy: flag !== undefined && (flag & CONSENSUS_FLAGS) === 0,
+      offset,
+      message: detail ? `${getScriptErrorString(code)}: ${detail}` : getScriptErrorString(code),
+    };
+    if (opcode !== undefined) finding.opcode = opcode;
+    findings.push(finding);
+  };
+
+  if (checkScriptSize(script.length) !== ScriptError.OK) {
+    report(ScriptError.SCRIPT_SIZE, LintSeverity.ERROR, -1, undefined, `${script.length} bytes`);
+  }
+
+  let depth = 0;
+  for (const chunk of parseScript(script)) {
+    const { opcode, offset, data } = chunk;
+    const name = getOpcodeName(opcode);
+
+    if (chunk.truncated) {
+      report(ScriptError.BAD_OPCODE, LintSeverity.ERROR, offset, opcode, `${name} operand runs past the end of the script`);
+      break;
+    }
+
+    if (data && checkElementSize(data.length) !== ScriptError.OK) {
+      report(ScriptError.PUSH_SIZE, LintSeverity.ERROR, offset, opcode, `${data.length} bytes`);
+    }
+
+    if (opcode <= Opcodes.OP_PUSHDATA4) {
+      if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_MINIMALDATA) && !isMinimalPush(opcode, data)) {
+        report(ScriptError.MINIMALDATA, LintSeverity.WARNING, offset, opcode, `${name} of ${data?.length ?? 0} bytes`,
+          ScriptFlags.SCRIPT_VERIFY_MINIMALDATA);
+      }
+      continue;
+    }
+
+    if (options.scriptSig && opcode > Opcodes.OP_16 && hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_SIGPUSHONLY)) {
+      report(ScriptError.SIG_PUSHONLY, LintSeverity.ERROR, offset, opcode, name, ScriptFlags.SCRIPT_VERIFY_SIGPUSHONLY);
+    }
+
+    const info = getOpcodeInfo(opcode);
+    if (!info) {
+      report(ScriptError.BAD_OPCODE, LintSeverity.WARNING, offset, opcode, `unassigned opcode ${name}`);
+    } else if (info.disabled) {
+      // OP_VERIF and OP_VERNOTIF fail even inside unexecuted branches
+      report(ScriptError.BAD_OPCODE, LintSeverity.ERROR, offset, opcode, name);
+    } else if (info.reserved) {
+      report(ScriptError.BAD_OPCODE, LintSeverity.WARNING, offset, opcode, `reserved opcode ${name}`);
+    } else if (isUpgradableNop(opcode, flags)) {
+      if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS)) {
+        report(ScriptError.DISCOURAGE_UPGRADABLE_NOPS, LintSeverity.WARNING, offset, opcode, name,
+          ScriptFlags.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS);
+      }
+    } else if (info.requiredFlag !== undefined && !hasFlag(flags, info.requiredFlag)) {
+      report(ScriptError.BAD_OPCODE, LintSeverity.WARNING, offset, opcode,
+        `${name} requires ${getFlagNames(info.requiredFlag).join(', ')}`);
+    }
+
+    if (opcode === Opcodes.OP_IF || opcode === Opcodes.OP_NOTIF) {
+      depth++;
+    } else if (opcode === Opcodes.OP_ELSE || opcode === Opcodes.OP_ENDIF) {
+      if (depth === 0) {
+        report(ScriptError.UNBALANCED_CONDITIONAL, LintSeverity.ERROR, offset, opcode, `${name} without OP_IF`);
+      } else if (opcode === Opcodes.OP_ENDIF) {
+        depth--;
+      }
+    }
+  }
+
+  if (depth > 0) {
+    report(ScriptError.UNBALANCED_CONDITIONAL, LintSeverity.ERROR, -1, undefined, `${depth} OP_IF without OP_ENDIF`);
+  }
+
+  return findings;
+}
+
+export default {
+  LintSeverity,
+  lintScript,
+};
@@ -6,6 +6,20 @@
  * Reference: Radiant-Core src/chainparams.cpp
  */
 
+import { bytesEqual, bytesToHex, hexToBytes } from './encoding';
+
+/**
+ * Consensus parameters (`Consensus::Params`)
+ */
+export interface ConsensusParams {
+  /** Highest allowed proof-of-work target, as 32-byte hex */
+  powLimit: string;
+  /** Target time between blocks in seconds */
+  powTargetSpacing: number;
+  /** Blocks between subsidy halvings */
+  subsidyHalvingInterval: number;
+}
+
 export interface NetworkParams {
   name: string;
   alias: string;
@@ -17,8 +31,12 @@ export interface NetworkParams {
   networkMagic: Uint8Array;
   port: number;
   dnsSeeds: string[];
+  consensus: ConsensusParams;
 }
 
+/** Target spacing shared by all networks (5 minutes) */
+const POW_TARGET_SPACING = 5 * 60;
+
 /**
  * Mainnet parameters
  */
@@ -36,6 +54,11 @@ export const mainnet: NetworkParams = {
     'seed.radiantblockchain.org',
     'seed.radiant.ovh',
   ],
+  consensus: {
+    powLimit: '00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    powTargetSpacing: POW_TARGET_SPACING,
+    subsidyHalvingInterval: 210_000,
+  },
 };
 
 /**
@@ -54,6 +77,11 @@ export const testnet: NetworkParams = {
   dnsSeeds: [
     'testnet-seed.radiantblockchain.org',
   ],
+  consensus: {
+    powLimit: '00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    powTargetSpacing: POW_TARGET_SPACING,
+    subsidyHalvingInterval: 210_000,
+  },
 };
 
 /**
@@ -70,6 +98,11 @@ export const regtest: NetworkParams = {
   networkMagic: new Uint8Array([0xfa, 0xbf, 0xb5, 0xda]),
   port: 18444,
   dnsSeeds: [],
+  consensus: {
+    powLimit: '7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    powTargetSpacing: POW_TARGET_SPACING,
+    subsidyHalvingInterval: 150,
+  },
 };
 
 /**
@@ -85,61 +118,252 @@ export const Networks = {
 export type NetworkName = keyof typeof Networks;
 
 /**
- * Get network by name
+ * Radiant coin type registered in SLIP-44, used in BIP44 paths
+ */
+export const SLIP44_COIN_TYPE = 512;
+
+/**
+ * Default BIP44 path for the first receiving address of the first account
+ */
+export const DEFAULT_DERIVATION_PATH = `m/44'/${SLIP44_COIN_TYPE}'/0'/0/0`;
+
+/**
+ * Registered networks by name, in registration order
+ */
+const registry = new Map<string, NetworkParams>([
+  [mainnet.name, mainnet],
+  [testnet.name, testnet],
+  [regtest.name, regtest],
+]);
+
+const BUILTIN_NETWORKS: readonly string[] = [mainnet.name, testnet.name, regtest.name];
+
+/**
+ * `NetworkParams` with byte fields as hex, as stored in a registry snapshot
+ */
+export type SerializedNetworkParams = Omit<NetworkParams, 'networkMagic'> & {
+  networkMagic: string;
+};
+
+/**
+ * JSON-serializable list of custom networks
+ */
+export interface NetworkRegistrySnapshot {
+  networks: SerializedNetworkParams[];
+}
+
+function assertInteger(value: number, field: string, max: number, min = 0): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid network ${field}: ${value}`);
+  }
+}
+
+function assertDnsSeeds(value: unknown): void {
+  if (!Array.isArray(value) || !value.every(seed => typeof seed === 'string')) {
+    throw new Error('Network dnsSeeds must be an array of strings');
+  }
+}
+
+function assertHash(value: string, field: string): void {
+  if (typeof value !== 'string' || !/^[0-9a-f]{64}$/i.test(value)) {
+    throw new Error(`Invalid network ${field}: expected 32-byte hex`);
+  }
+}
+
+function validateConsensus(consensus: ConsensusParams): void {
+  if (!consensus || typeof consensus !== 'object') {
+    throw new Error('Network consensus params are required');
+  }
+  assertHash(consensus.powLimit, 'powLimit');
+  assertInteger(consensus.powTargetSpacing, 'powTargetSpacing', Number.MAX_SAFE_INTEGER, 1);
+  assertInteger(consensus.subsidyHalvingInterval, 'subsidyHalvingInterval', Number.MAX_SAFE_INTEGER, 1);
+}
+
+function copyConsensus(consensus: ConsensusParams): ConsensusParams {
+  return { ...consensus };
+}
+
+function validateNetwork(params: NetworkParams): void {
+  if (typeof params.name !== 'string' || params.name.trim() === '') {
+    throw new Error('Network name must be a non-empty string');
+  }
+  if (typeof params.alias !== 'string' || params.alias.trim() === '') {
+    throw new Error('Network alias must be a non-empty string');
+  }
+  assertInteger(params.pubKeyHash, 'pubKeyHash', 0xff);
+  assertInteger(params.scriptHash, 'scriptHash', 0xff);
+  assertInteger(params.privateKey, 'privateKey', 0xff);
+  assertInteger(params.xpubkey, 'xpubkey', 0xffffffff);
+  assertInteger(params.xprivkey, 'xprivkey', 0xffffffff);
+  assertInteger(params.port, 'port', 0xffff, 1);
+  if (params.pubKeyHash === params.scriptHash) {
+    throw new Error('Network pubKeyHash and scriptHash must differ');
+  }
+  if (params.xpubkey === params.xprivkey) {
+    throw new Error('Network xpubkey and xprivkey must differ');
+  }
+  if (!(params.networkMagic instanceof Uint8Array) || params.networkMagic.length !== 4) {
+    throw new Error('Network magic must be 4 bytes');
+  }
+  assertDnsSeeds(params.dnsSeeds);
+  validateConsensus(params.consensus);
+}
+
+/**
+ * Add a network to the registry so that lookups and address, key and
+ * extended key decoding recognise it
+ * @throws Error if the params are invalid or the name, alias or magic is taken
+ */
+export function registerNetwork(params: NetworkParams): NetworkParams {
+  validateNetwork(params);
+  for (const label of new Set([params.name.toLowerCase(), params.alias.toLowerCase()])) {
+    if (getNetwork(label)) {
+      throw new Error(`Network name or alias already registered: "${label}"`);
+    }
+  }
+  const existing = getNetworkByMagic(params.networkMagic);
+  if (existing) {
+    throw new Error(`Network magic ${bytesToHex(params.networkMagic)} already used by ${existing.name}`);
+  }
+
+  const network: NetworkParams = {
+    ...params,
+    networkMagic: params.networkMagic.slice(),
+    dnsSeeds: [...params.dnsSeeds],
+    consensus: copyConsensus(params.consensus),
+  };
+  registry.set(network.name, network);
+  return network;
+}
+
+/**
+ * Remove a custom network from the registry
+ * @returns true if the network was registered
+ * @throws Error for mainnet, testnet and regtest
+ */
+export function unregisterNetwork(name: string): boolean {
+  const network = getNetwork(name);
+  if (!network) return false;
+  if (BUILTIN_NETWORKS.includes(network.name)) {
+    throw new Error(`Cannot unregister built-in network: ${network.name}`);
+  }
+  return registry.delete(network.name);
+}
+
+/**
+ * All registered networks, built-in networks first
+ */
+export function getNetworks(): NetworkParams[] {
+  return [...registry.values()];
+}
+
+/**
+ * Get network by name or alias
  */
 export function getNetwork(name: string): NetworkParams | undefined {
   const normalizedName = name.toLowerCase();
-  return Networks[normalizedName as NetworkName];
+  for (const network of registry.values()) {
+    if (network.name.toLowerCase() === normalizedName || network.alias.toLowerCase() === normalizedName) {
+      return network;
+    }
+  }
+  return undefined;
 }
 
 /**
  * Get network by magic bytes
  */
 export function getNetworkByMagic(magic: Uint8Array): NetworkParams | undefined {
-  for (const network of [mainnet, testnet, regtest]) {
-    if (arraysEqual(network.networkMagic, magic)) {
+  for (const network of registry.values()) {
+    if (bytesEqual(network.networkMagic, magic)) {
       return network;
     }
   }
   return undefined;
 }
 
-function arraysEqual(a: Uint8Array, b: Uint8Array): boolean {
-  if (a.length !== b.length) return false;
-  for (let i = 0; i < a.length; i++) {
-    if (a[i] !== b[i]) return false;
-  }
-  return true;
+function resolveNetworkName(network: NetworkParams | string): string | undefined {
+  return typeof network === 'string' ? getNetwork(network)?.name : network.name;
 }
 
 /**
  * Check if network is mainnet
  */
 export function isMainnet(network: NetworkParams | string): boolean {
-  if (typeof network === 'string') {
-    return network === 'mainnet' || network === 'livenet';
-  }
-  return network.name === 'mainnet';
+  return resolveNetworkName(network) === mainnet.name;
 }
 
 /**
  * Check if network is testnet
  */
 export function isTestnet(network: NetworkParams | string): boolean {
-  if (typeof network === 'string') {
-    return network === 'testnet';
-  }
-  return network.name === 'testnet';
+  return resolveNetworkName(network) === testnet.name;
 }
 
 /**
  * Check if network is regtest
  */
 export function isRegtest(network: NetworkParams | string): boolean {
-  if (typeof network === 'string') {
-    return network === 'regtest';
+  return resolveNetworkName(network) === regtest.name;
+}
+
+/**
+ * Convert network params to a JSON-serializable object
+ */
+export function serializeNetwork(network: NetworkParams): SerializedNetworkParams {
+  return {
+    ...network,
+    networkMagic: bytesToHex(network.networkMagic),
+    dnsSeeds: [...network.dnsSeeds],
+    consensus: copyConsensus(network.consensus),
+  };
+}
+
+/**
+ * Restore network params from `serializeNetwork` output
+ * @throws Error if the magic is not valid hex or dnsSeeds is not an array of strings
+ */
+export function deserializeNetwork(json: SerializedNetworkParams): NetworkParams {
+  assertDnsSeeds(json.dnsSeeds);
+  return {
+    ...json,
+    networkMagic: hexToBytes(json.networkMagic),
+    dnsSeeds: [...json.dnsSeeds],
+    consensus: json.consensus && copyConsensus(json.consensus),
+  };
+}
+
+/**
+ * Snapshot the custom (non built-in) networks for `JSON.stringify`
+ */
+export function exportNetworkRegistry(): NetworkRegistrySnapshot {
+  return {
+    networks: getNetworks()
+      .filter(network => !BUILTIN_NETWORKS.includes(network.name))
+      .map(serializeNetwork),
+  };
+}
+
+/**
+ * Register every network in a snapshot (or its JSON text)
+ * @returns the registered networks
+ * @throws Error if any network is invalid or conflicts; nothing is registered in that case
+ */
+export function importNetworkRegistry(snapshot: NetworkRegistrySnapshot | string): NetworkParams[] {
+  const parsed: NetworkRegistrySnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  if (!parsed || !Array.isArray(parsed.networks)) {
+    throw new Error('Network registry snapshot must have a "networks" array');
+  }
+  const registered: NetworkParams[] = [];
+  try {
+    for (const json of parsed.networks) {
+      registered.push(registerNetwork(deserializeNetwork(json)));
+    }
+  } catch (err) {
+    for (const network of registered) registry.delete(network.name);
+    throw err;
   }
-  return network.name === 'regtest';
+  return registered;
 }
 
 /**
@@ -7,6 +7,8 @@
  * Reference: Radiant-Core src/script/script.h
  */
 
+import { ScriptFlags } from './flags';
+
 export const Opcodes = {
   // Push value
   OP_0: 0x00,
@@ -246,7 +248,8 @@ export function isIntrospectionOpcode(opcode: number): boolean {
 }
 
 /**
- * Check if opcode is a reference opcode
+ * Check if opcode is a reference opcode. All of them require
+ * SCRIPT_ENHANCED_REFERENCES except OP_PUSH_TX_STATE (SCRIPT_PUSH_TX_STATE).
  */
 export function isReferenceOpcode(opcode: number): boolean {
   return opcode >= 0xd0 && opcode <= 0xed;
@@ -290,4 +293,276 @@ export function isReenabledOpcode(opcode: number): boolean {
   return reenabledOpcodes.includes(opcode);
 }
 
+/**
+ * Opcode categories
+ */
+export const OpcodeCategory = {
+  PUSH: 'push',
+  CONTROL: 'control',
+  STACK: 'stack',
+  SPLICE: 'splice',
+  BITWISE: 'bitwise',
+  ARITHMETIC: 'arithmetic',
+  CRYPTO: 'crypto',
+  LOCKTIME: 'locktime',
+  NOP: 'nop',
+  STATE_SEPARATOR: 'state-separator',
+  INTROSPECTION: 'introspection',
+  REFERENCE: 'reference',
+  RESERVED: 'reserved',
+  INVALID: 'invalid',
+} as const;
+
+export type OpcodeCategoryName = (typeof OpcodeCategory)[keyof typeof OpcodeCategory];
+
+/**
+ * Per-opcode metadata
+ */
+export interface OpcodeInfo {
+  /** Canonical name */
+  name: string;
+  /** Opcode byte */
+  opcode: number;
+  /** Alternative names accepted for the same byte */
+  aliases: string[];
+  category: OpcodeCategoryName;
+  /** Stack items consumed, or null when it depends on stack contents */
+  inputs: number | null;
+  /** Stack items produced, or null when it depends on stack contents */
+  outputs: number | null;
+  /** Counts toward MAX_OPS_PER_SCRIPT (every opcode above OP_16) */
+  countsTowardOpLimit: boolean;
+  /** Fails the script even inside an unexecuted branch */
+  disabled: boolean;
+  /** Fails the script when executed */
+  reserved: boolean;
+  /** Script flag that must be set for the opcode to be enabled */
+  requiredFlag?: number;
+  /** One-line description */
+  description: string;
+}
+
+type OpcodeInfoExtra = Partial<Pick<OpcodeInfo, 'disabled' | 'reserved' | 'requiredFlag'>>;
+
+const C = OpcodeCategory;
+const INTROSPECTION = { requiredFlag: ScriptFlags.SCRIPT_NATIVE_INTROSPECTION };
+const REFERENCES = { requiredFlag: ScriptFlags.SCRIPT_ENHANCED_REFERENCES };
+
+// [name, category, inputs, outputs, description, extra]
+const OPCODE_INFO_ROWS: [OpcodeName, OpcodeCategoryName, number | null, number | null, string, OpcodeInfoExtra?][] = [
+  ['OP_0', C.PUSH, 0, 1, 'Push an empty byte vector'],
+  ['OP_PUSHDATA1', C.PUSH, 0, 1, 'Push the next N bytes, N given by the next byte'],
+  ['OP_PUSHDATA2', C.PUSH, 0, 1, 'Push the next N bytes, N given by the next 2 bytes (little-endian)'],
+  ['OP_PUSHDATA4', C.PUSH, 0, 1, 'Push the next N bytes, N given by the next 4 bytes (little-endian)'],
+  ['OP_1NEGATE', C.PUSH, 0, 1, 'Push the number -1'],
+  ['OP_RESERVED', C.RESERVED, 0, 0, 'Reserved; fails the script when executed', { reserved: true }],
+  ['OP_1', C.PUSH, 0, 1, 'Push the number 1'],
+  ['OP_2', C.PUSH, 0, 1, 'Push the number 2'],
+  ['OP_3', C.PUSH, 0, 1, 'Push the number 3'],
+  ['OP_4', C.PUSH, 0, 1, 'Push the number 4'],
+  ['OP_5', C.PUSH, 0, 1, 'Push the number 5'],
+  ['OP_6', C.PUSH, 0, 1, 'Push the number 6'],
+  ['OP_7', C.PUSH, 0, 1, 'Push the number 7'],
+  ['OP_8', C.PUSH, 0, 1, 'Push the number 8'],
+  ['OP_9', C.PUSH, 0, 1, 'Push the number 9'],
+  ['OP_10', C.PUSH, 0, 1, 'Push the number 10'],
+  ['OP_11', C.PUSH, 0, 1, 'Push the number 11'],
+  ['OP_12', C.PUSH, 0, 1, 'Push the number 12'],
+  ['OP_13', C.PUSH, 0, 1, 'Push the number 13'],
+  ['OP_14', C.PUSH, 0, 1, 'Push the number 14'],
+  ['OP_15', C.PUSH, 0, 1, 'Push the number 15'],
+  ['OP_16', C.PUSH, 0, 1, 'Push the number 16'],
+
+  ['OP_NOP', C.CONTROL, 0, 0, 'Do nothing'],
+  ['OP_VER', C.RESERVED, 0, 0, 'Reserved; fails the script when executed', { reserved: true }],
+  ['OP_IF', C.CONTROL, 1, 0, 'Execute the following statements if the top item is true'],
+  ['OP_NOTIF', C.CONTROL, 1, 0, 'Execute the following statements if the top item is false'],
+  ['OP_VERIF', C.RESERVED, 0, 0, 'Disabled; fails the script even when not executed', { disabled: true }],
+  ['OP_VERNOTIF', C.RESERVED, 0, 0, 'Disabled; fails the script even when not executed', { disabled: true }],
+  ['OP_ELSE', C.CONTROL, 0, 0, 'Execute the following statements if the preceding branch was not executed'],
+  ['OP_ENDIF', C.CONTROL, 0, 0, 'End an OP_IF/OP_NOTIF/OP_ELSE block'],
+  ['OP_VERIFY', C.CONTROL, 1, 0, 'Fail the script unless the top item is true'],
+  ['OP_RETURN', C.CONTROL, 0, 0, 'Fail the script; marks an output as provably unspendable'],
+
+  ['OP_TOALTSTACK', C.STACK, 1, 0, 'Move the top item to the alt stack'],
+  ['OP_FROMALTSTACK', C.STACK, 0, 1, 'Move the top alt stack item to the main stack'],
+  ['OP_2DROP', C.STACK, 2, 0, 'Remove the top two items'],
+  ['OP_2DUP', C.STACK, 2, 4, 'Duplicate the top two items'],
+  ['OP_3DUP', C.STACK, 3, 6, 'Duplicate the top three items'],
+  ['OP_2OVER', C.STACK, 4, 6, 'Copy the pair of items two spaces back to the top'],
+  ['OP_2ROT', C.STACK, 6, 6, 'Move the fifth and sixth items to the top'],
+  ['OP_2SWAP', C.STACK, 4, 4, 'Swap the top two pairs of items'],
+  ['OP_IFDUP', C.STACK, 1, null, 'Duplicate the top item if it is true'],
+  ['OP_DEPTH', C.STACK, 0, 1, 'Push the number of stack items'],
+  ['OP_DROP', C.STACK, 1, 0, 'Remove the top item'],
+  ['OP_DUP', C.STACK, 1, 2, 'Duplicate the top item'],
+  ['OP_NIP', C.STACK, 2, 1, 'Remove the second-to-top item'],
+  ['OP_OVER', C.STACK, 2, 3, 'Copy the second-to-top item to the top'],
+  ['OP_PICK', C.STACK, null, null, 'Copy the item N back to the top'],
+  ['OP_ROLL', C.STACK, null, null, 'Move the item N back to the top'],
+  ['OP_ROT', C.STACK, 3, 3, 'Rotate the top three items to the left'],
+  ['OP_SWAP', C.STACK, 2, 2, 'Swap the top two items'],
+  ['OP_TUCK', C.STACK, 2, 3, 'Copy the top item below the second-to-top item'],
+
+  ['OP_CAT', C.SPLICE, 2, 1, 'Concatenate two byte vectors'],
+  ['OP_SPLIT', C.SPLICE, 2, 2, 'Split a byte vector at position N'],
+  ['OP_NUM2BIN', C.SPLICE, 2, 1, 'Convert a number to a byte vector of size N'],
+  ['OP_BIN2NUM', C.SPLICE, 1, 1, 'Convert a byte vector to a minimally encoded number'],
+  ['OP_SIZE', C.SPLICE, 1, 2, 'Push the byte length of the top item without removing it'],
+
+  ['OP_INVERT', C.BITWISE, 1, 1, 'Flip every bit of the top item'],
+  ['OP_AND', C.BITWISE, 2, 1, 'Bitwise AND of two equal-length byte vectors'],
+  ['OP_OR', C.BITWISE, 2, 1, 'Bitwise OR of two equal-length byte vectors'],
+  ['OP_XOR', C.BITWISE, 2, 1, 'Bitwise XOR of two equal-length byte vectors'],
+  ['OP_EQUAL', C.BITWISE, 2, 1, 'Push 1 if the top two items are byte-equal, 0 otherwise'],
+  ['OP_EQUALVERIFY', C.BITWISE, 2, 0, 'OP_EQUAL followed by OP_VERIFY'],
+  ['OP_RESERVED1', C.RESERVED, 0, 0, 'Reserved; fails the script when executed', { reserved: true }],
+  ['OP_RESERVED2', C.RESERVED, 0, 0, 'Reserved; fails the script when executed', { reserved: true }],
+
+  ['OP_1ADD', C.ARITHMETIC, 1, 1, 'Add 1'],
+  ['OP_1SUB', C.ARITHMETIC, 1, 1, 'Subtract 1'],
+  ['OP_2MUL', C.ARITHMETIC, 1, 1, 'Multiply by 2'],
+  ['OP_2DIV', C.ARITHMETIC, 1, 1, 'Divide by 2'],
+  ['OP_NEGATE', C.ARITHMETIC, 1, 1, 'Flip the sign'],
+  ['OP_ABS', C.ARITHMETIC, 1, 1, 'Absolute value'],
+  ['OP_NOT', C.ARITHMETIC, 1, 1, 'Push 1 if the input is 0, 0 otherwise'],
+  ['OP_0NOTEQUAL', C.ARITHMETIC, 1, 1, 'Push 0 if the input is 0, 1 otherwise'],
+  ['OP_ADD', C.ARITHMETIC, 2, 1, 'a + b'],
+  ['OP_SUB', C.ARITHMETIC, 2, 1, 'a - b'],
+  ['OP_MUL', C.ARITHMETIC, 2, 1, 'a * b'],
+  ['OP_DIV', C.ARITHMETIC, 2, 1, 'a / b, truncated toward zero'],
+  ['OP_MOD', C.ARITHMETIC, 2, 1, 'Remainder of a / b'],
+  ['OP_LSHIFT', C.ARITHMETIC, 2, 1, 'Shift a byte vector left by N bits'],
+  ['OP_RSHIFT', C.ARITHMETIC, 2, 1, 'Shift a byte vector right by N bits'],
+  ['OP_BOOLAND', C.ARITHMETIC, 2, 1, 'Push 1 if both inputs are non-zero'],
+  ['OP_BOOLOR', C.ARITHMETIC, 2, 1, 'Push 1 if either input is non-zero'],
+  ['OP_NUMEQUAL', C.ARITHMETIC, 2, 1, 'Push 1 if the numbers are equal'],
+  ['OP_NUMEQUALVERIFY', C.ARITHMETIC, 2, 0, 'OP_NUMEQUAL followed by OP_VERIFY'],
+  ['OP_NUMNOTEQUAL', C.ARITHMETIC, 2, 1, 'Push 1 if the numbers are not equal'],
+  ['OP_LESSTHAN', C.ARITHMETIC, 2, 1, 'Push 1 if a < b'],
+  ['OP_GREATERTHAN', C.ARITHMETIC, 2, 1, 'Push 1 if a > b'],
+  ['OP_LESSTHANOREQUAL', C.ARITHMETIC, 2, 1, 'Push 1 if a <= b'],
+  ['OP_GREATERTHANOREQUAL', C.ARITHMETIC, 2, 1, 'Push 1 if a >= b'],
+  ['OP_MIN', C.ARITHMETIC, 2, 1, 'Push the smaller of a and b'],
+  ['OP_MAX', C.ARITHMETIC, 2, 1, 'Push the larger of a and b'],
+  ['OP_WITHIN', C.ARITHMETIC, 3, 1, 'Push 1 if min <= x < max'],
+
+  ['OP_RIPEMD160', C.CRYPTO, 1, 1, 'RIPEMD-160 hash'],
+  ['OP_SHA1', C.CRYPTO, 1, 1, 'SHA-1 hash'],
+  ['OP_SHA256', C.CRYPTO, 1, 1, 'SHA-256 hash'],
+  ['OP_HASH160', C.CRYPTO, 1, 1, 'RIPEMD-160 of SHA-256'],
+  ['OP_HASH256', C.CRYPTO, 1, 1, 'Double SHA-256'],
+  ['OP_CODESEPARATOR', C.CRYPTO, 0, 0, 'Mark the start of the script code used for signature checks'],
+  ['OP_CHECKSIG', C.CRYPTO, 2, 1, 'Verify a transaction signature against a public key'],
+  ['OP_CHECKSIGVERIFY', C.CRYPTO, 2, 0, 'OP_CHECKSIG followed by OP_VERIFY'],
+  ['OP_CHECKMULTISIG', C.CRYPTO, null, 1, 'Verify M-of-N transaction signatures'],
+  ['OP_CHECKMULTISIGVERIFY', C.CRYPTO, null, 0, 'OP_CHECKMULTISIG followed by OP_VERIFY'],
+
+  ['OP_NOP1', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_CHECKLOCKTIMEVERIFY', C.LOCKTIME, 1, 1, 'Fail unless the transaction locktime is at least the top item (BIP65)', { requiredFlag: ScriptFlags.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY }],
+  ['OP_CHECKSEQUENCEVERIFY', C.LOCKTIME, 1, 1, 'Fail unless the input sequence satisfies the relative locktime (BIP112)', { requiredFlag: ScriptFlags.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY }],
+  ['OP_NOP4', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP5', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP6', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP7', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP8', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP9', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+  ['OP_NOP10', C.NOP, 0, 0, 'Reserved for upgrades; does nothing'],
+
+  ['OP_CHECKDATASIG', C.CRYPTO, 3, 1, 'Verify a signature over arbitrary message data'],
+  ['OP_CHECKDATASIGVERIFY', C.CRYPTO, 3, 0, 'OP_CHECKDATASIG followed by OP_VERIFY'],
+  ['OP_REVERSEBYTES', C.SPLICE, 1, 1, 'Reverse the byte order of the top item'],
+
+  ['OP_STATESEPARATOR', C.STATE_SEPARATOR, 0, 0, 'Separate the state script from the code script'],
+  ['OP_STATESEPARATORINDEX_UTXO', C.STATE_SEPARATOR, 1, 1, 'Push the state separator byte index of the UTXO spent by input N'],
+  ['OP_STATESEPARATORINDEX_OUTPUT', C.STATE_SEPARATOR, 1, 1, 'Push the state separator byte index of output N'],
+
+  ['OP_INPUTINDEX', C.INTROSPECTION, 0, 1, 'Push the index of the input being evaluated', INTROSPECTION],
+  ['OP_ACTIVEBYTECODE', C.INTROSPECTION, 0, 1, 'Push the script code being evaluated (from the last OP_CODESEPARATOR)', INTROSPECTION],
+  ['OP_TXVERSION', C.INTROSPECTION, 0, 1, 'Push the transaction version', INTROSPECTION],
+  ['OP_TXINPUTCOUNT', C.INTROSPECTION, 0, 1, 'Push the number of inputs', INTROSPECTION],
+  ['OP_TXOUTPUTCOUNT', C.INTROSPECTION, 0, 1, 'Push the number of outputs', INTROSPECTION],
+  ['OP_TXLOCKTIME', C.INTROSPECTION, 0, 1, 'Push the transaction locktime', INTROSPECTION],
+  ['OP_UTXOVALUE', C.INTROSPECTION, 1, 1, 'Push the value of the UTXO spent by input N', INTROSPECTION],
+  ['OP_UTXOBYTECODE', C.INTROSPECTION, 1, 1, 'Push the locking script of the UTXO spent by input N', INTROSPECTION],
+  ['OP_OUTPOINTTXHASH', C.INTROSPECTION, 1, 1, 'Push the outpoint txid of input N', INTROSPECTION],
+  ['OP_OUTPOINTINDEX', C.INTROSPECTION, 1, 1, 'Push the outpoint index of input N', INTROSPECTION],
+  ['OP_INPUTBYTECODE', C.INTROSPECTION, 1, 1, 'Push the unlocking script of input N', INTROSPECTION],
+  ['OP_INPUTSEQUENCENUMBER', C.INTROSPECTION, 1, 1, 'Push the sequence number of input N', INTROSPECTION],
+  ['OP_OUTPUTVALUE', C.INTROSPECTION, 1, 1, 'Push the value of output N', INTROSPECTION],
+  ['OP_OUTPUTBYTECODE', C.INTROSPECTION, 1, 1, 'Push the locking script of output N', INTROSPECTION],
+
+  ['OP_SHA512_256', C.CRYPTO, 1, 1, 'SHA-512/256 hash'],
+  ['OP_HASH512_256', C.CRYPTO, 1, 1, 'Double SHA-512/256'],
+
+  ['OP_PUSHINPUTREF', C.REFERENCE, 0, 1, 'Push a reference that must come from an input, carrying it forward', REFERENCES],
+  ['OP_REQUIREINPUTREF', C.REFERENCE, 0, 1, 'Push a reference that must come from an input, without carrying it forward', REFERENCES],
+  ['OP_DISALLOWPUSHINPUTREF', C.REFERENCE, 0, 1, 'Forbid the reference in any output', REFERENCES],
+  ['OP_DISALLOWPUSHINPUTREFSIBLING', C.REFERENCE, 0, 1, 'Forbid the reference in sibling outputs', REFERENCES],
+  ['OP_REFHASHDATASUMMARY_UTXO', C.REFERENCE, 1, 1, 'Push the hash of the data summary of the UTXO spent by input N', REFERENCES],
+  ['OP_REFHASHVALUESUM_UTXOS', C.REFERENCE, 1, 1, 'Push the total value of UTXOs whose reference hash matches', REFERENCES],
+  ['OP_REFHASHDATASUMMARY_OUTPUT', C.REFERENCE, 1, 1, 'Push the hash of the data summary of output N', REFERENCES],
+  ['OP_REFHASHVALUESUM_OUTPUTS', C.REFERENCE, 1, 1, 'Push the total value of outputs whose reference hash matches', REFERENCES],
+  ['OP_PUSHINPUTREFSINGLETON', C.REFERENCE, 0, 1, 'Push a singleton reference that must come from an input', REFERENCES],
+  ['OP_REFTYPE_UTXO', C.REFERENCE, 1, 1, 'Push the type of a reference among spent UTXOs (0 none, 1 normal, 2 singleton)', REFERENCES],
+  ['OP_REFTYPE_OUTPUT', C.REFERENCE, 1, 1, 'Push the type of a reference among outputs (0 none, 1 normal, 2 singleton)', REFERENCES],
+  ['OP_REFVALUESUM_UTXOS', C.REFERENCE, 1, 1, 'Push the total value of spent UTXOs carrying a reference', REFERENCES],
+  ['OP_REFVALUESUM_OUTPUTS', C.REFERENCE, 1, 1, 'Push the total value of outputs carrying a reference', REFERENCES],
+  ['OP_REFOUTPUTCOUNT_UTXOS', C.REFERENCE, 1, 1, 'Push the number of spent UTXOs carrying a reference', REFERENCES],
+  ['OP_REFOUTPUTCOUNT_OUTPUTS', C.REFERENCE, 1, 1, 'Push the number of outputs carrying a reference', REFERENCES],
+  ['OP_REFOUTPUTCOUNTZEROVALUED_UTXOS', C.REFERENCE, 1, 1, 'Push the number of zero-value spent UTXOs carrying a reference', REFERENCES],
+  ['OP_REFOUTPUTCOUNTZEROVALUED_OUTPUTS', C.REFERENCE, 1, 1, 'Push the number of zero-value outputs carrying a reference', REFERENCES],
+  ['OP_REFDATASUMMARY_UTXO', C.REFERENCE, 1, 1, 'Push the references carried by the UTXO spent by input N', REFERENCES],
+  ['OP_REFDATASUMMARY_OUTPUT', C.REFERENCE, 1, 1, 'Push the references carried by output N', REFERENCES],
+  ['OP_CODESCRIPTHASHVALUESUM_UTXOS', C.REFERENCE, 1, 1, 'Push the total value of spent UTXOs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTHASHVALUESUM_OUTPUTS', C.REFERENCE, 1, 1, 'Push the total value of outputs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTHASHOUTPUTCOUNT_UTXOS', C.REFERENCE, 1, 1, 'Push the number of spent UTXOs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTHASHOUTPUTCOUNT_OUTPUTS', C.REFERENCE, 1, 1, 'Push the number of outputs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTHASHZEROVALUEDOUTPUTCOUNT_UTXOS', C.REFERENCE, 1, 1, 'Push the number of zero-value spent UTXOs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTHASHZEROVALUEDOUTPUTCOUNT_OUTPUTS', C.REFERENCE, 1, 1, 'Push the number of zero-value outputs with a code script hash', REFERENCES],
+  ['OP_CODESCRIPTBYTECODE_UTXO', C.REFERENCE, 1, 1, 'Push the code script of the UTXO spent by input N', REFERENCES],
+  ['OP_CODESCRIPTBYTECODE_OUTPUT', C.REFERENCE, 1, 1, 'Push the code script of output N', REFERENCES],
+  ['OP_STATESCRIPTBYTECODE_UTXO', C.REFERENCE, 1, 1, 'Push the state script of the UTXO spent by input N', REFERENCES],
+  ['OP_STATESCRIPTBYTECODE_OUTPUT', C.REFERENCE, 1, 1, 'Push the state script of output N', REFERENCES],
+  ['OP_PUSH_TX_STATE', C.INTROSPECTION, 1, 1, 'Push a transaction-level state field', { requiredFlag: ScriptFlags.SCRIPT_PUSH_TX_STATE }],
+
+  ['INVALIDOPCODE', C.INVALID, 0, 0, 'Invalid opcode; fails the script when executed', { reserved: true }],
+];
+
+/**
+ * Metadata for every named opcode, keyed by opcode byte
+ */
+export const OpcodeInfoTable: Record<number, OpcodeInfo> = Object.fromEntries(
+  OPCODE_INFO_ROWS.map(([name, category, inputs, outputs, description, extra = {}]) => {
+    const opcode = Opcodes[name];
+    const aliases = Object.entries(Opcodes)
+      .filter(([alias, value]) => value === opcode && alias !== name)
+      .map(([alias]) => alias);
+    const info: OpcodeInfo = {
+      name,
+      opcode,
+      aliases,
+      category,
+      inputs,
+      outputs,
+      countsTowardOpLimit: opcode > Opcodes.OP_16,
+      disabled: extra.disabled ?? false,
+      reserved: extra.reserved ?? false,
+      description,
+    };
+    if (extra.requiredFlag !== undefined) {
+      info.requiredFlag = extra.requiredFlag;
+    }
+    return [opcode, info];
+  })
+);
+
+/**
+ * Get metadata for an opcode byte.
+ * Direct pushes (0x01-0x4b) and unassigned bytes have no entry.
+ */
+export function getOpcodeInfo(opcode: number): OpcodeInfo | undefined {
+  return OpcodeInfoTable[opcode];
+}
+
 export default Opcodes;
@@ -0,0 +1,158 @@
+/**
+ * @radiantblockchain/constants - References
+ *
+ * A reference is a 36-byte outpoint: the 32-byte txid in internal
+ * (little-endian) byte order followed by the 4-byte little-endian vout.
+ * Explorers and RPC display txids byte-reversed, so the `txid` field of
+ * `Ref` and the `txid:vout` / `txid_vout` string forms use that display
+ * order, while the raw bytes and the 72-character hex form match what
+ * appears in scripts.
+ */
+
+import { Limits } from './limits';
+import { bytesToHex, hexToBytes } from './encoding';
+import { parseScript, hasRefOperand } from './script';
+
+/**
+ * A reference (outpoint)
+ */
+export interface Ref {
+  /** Transaction id in display (byte-reversed) hex */
+  txid: string;
+  /** Output index */
+  vout: number;
+}
+
+/**
+ * String forms accepted by `parseRef` and produced by `formatRef`
+ */
+export const RefFormat = {
+  /** `txid:vout` */
+  OUTPOINT: 'outpoint',
+  /** `txid_vout` */
+  UNDERSCORE: 'underscore',
+  /** 72 hex characters of the raw 36 bytes, as pushed in scripts */
+  HEX: 'hex',
+} as const;
+
+export type RefFormatName = (typeof RefFormat)[keyof typeof RefFormat];
+
+/**
+ * A reference found in a script
+ */
+export interface ScriptRef {
+  ref: Ref;
+  /** Opcode that carries the reference */
+  opcode: number;
+  /** Byte offset of the opcode within the script */
+  offset: number;
+}
+
+function validateRef(ref: Ref): void {
+  if (!/^[0-9a-fA-F]{64}$/.test(ref.txid)) {
+    throw new Error(`Invalid ref txid: "${ref.txid}"`);
+  }
+  if (!Number.isInteger(ref.vout) || ref.vout < 0 || ref.vout > 0xffffffff) {
+    throw new Error(`Invalid ref vout: ${ref.vout}`);
+  }
+}
+
+/**
+ * Decode a ref from its raw 36-byte script form
+ * @throws Error if the length is not 36 bytes
+ */
+export function refFromBytes(bytes: Uint8Array): Ref {
+  if (bytes.length !== Limits.REF_SIZE) {
+    throw new Error(`Ref must be ${Limits.REF_SIZE} bytes, got ${bytes.length}`);
+  }
+  const txid = bytesToHex(bytes.slice(0, 32).reverse());
+  const vout = (bytes[32] | (bytes[33] << 8) | (bytes[34] << 16) | (bytes[35] << 24)) >>> 0;
+  return { txid, vout };
+}
+
+/**
+ * Encode a ref as its raw 36-byte script form
+ */
+export function refToBytes(ref: Ref): Uint8Array {
+  validateRef(ref);
+  const bytes = new Uint8Array(Limits.REF_SIZE);
+  bytes.set(hexToBytes(ref.txid).reverse());
+  bytes[32] = ref.vout & 0xff;
+  bytes[33] = (ref.vout >>> 8) & 0xff;
+  bytes[34] = (ref.vout >>> 16) & 0xff;
+  bytes[35] = (ref.vout >>> 24) & 0xff;
+  return bytes;
+}
+
+/**
+ * Parse a ref from raw bytes, `txid:vout`, `txid_vout` or 72-character raw hex
+ * @throws Error if the input is not a valid ref
+ */
+export function parseRef(input: string | Uint8Array): Ref {
+  if (typeof input !== 'string') {
+    return refFromBytes(input);
+  }
+
+  const match = /^([0-9a-fA-F]{64})[:_](\d+)$/.exec(input);
+  if (match) {
+    const ref = { txid: match[1].toLowerCase(), vout: Number(match[2]) };
+    validateRef(ref);
+    return ref;
+  }
+
+  if (/^[0-9a-fA-F]{72}$/.test(input)) {
+    return refFromBytes(hexToBytes(input));
+  }
+
+  throw new Error(`Invalid ref: "${input}"`);
+}
+
+/**
+ * Format a ref as a string (defaults to `txid:vout`)
+ */
+export function formatRef(ref: Ref, format: RefFormatName = RefFormat.OUTPOINT): string {
+  validateRef(ref);
+  switch (format) {
+    case RefFormat.OUTPOINT:
+      return `${ref.txid.toLowerCase()}:${ref.vout}`;
+    case RefFormat.UNDERSCORE:
+      return `${ref.txid.toLowerCase()}_${ref.vout}`;
+    case RefFormat.HEX:
+      return bytesToHex(refToBytes(ref));
+    default:
+      throw new Error(`Unknown ref format: "${format}"`);
+  }
+}
+
+/**
+ * Check if two refs point at the same outpoint
+ */
+export function refsEqual(a: Ref, b: Ref): boolean {
+  return a.txid.toLowerCase() === b.txid.toLowerCase() && a.vout === b.vout;
+}
+
+/**
+ * List every ref carried by OP_PUSHINPUTREF, OP_REQUIREINPUTREF,
+ * OP_DISALLOWPUSHINPUTREF, OP_DISALLOWPUSHINPUTREFSIBLING and
+ * OP_PUSHINPUTREFSINGLETON in a script, in script order.
+ * Truncated operands at the end of the script are ignored.
+ */
+export function extractRefs(script: Uint8Array): ScriptRef[] {
+  return parseScript(script)
+    .filter(chunk => hasRefOperand(chunk.opcode) && !chunk.truncated && chunk.data !== undefined)
+    .map(chunk => ({
+      ref: refFromBytes(chunk.data as Uint8Array),
+      opcode: chunk.opcode,
+      offset: chunk.offset,
+    }));
+}
+
+export default {
+  RefFormat,
+  refFromBytes,
+  refToBytes,
+  parseRef,
+  formatRef,
+  refsEqual,
+  extractRefs,
+};
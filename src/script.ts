@@ -0,0 +1,426 @@
+/**
+ * @radiantblockchain/constants - Script
+ *
+ * Canonical script decoding and encoding shared by rxdeb, radiantjs and RadiantScript.
+ *
+ * Reference: Radiant-Core src/script/script.cpp (GetScriptOp)
+ */
+
+import { Opcodes, getOpcodeName, getOpcodeInfo } from './opcodes';
+import { Limits } from './limits';
+import { ScriptFlags, hasFlag } from './flags';
+import { bytesToHex, hexToBytes } from './encoding';
+import { encodeScriptNum } from './scriptnum';
+import { hash256 } from './crypto';
+
+/**
+ * Useful constants for script building
+ */
+export const ScriptConstants = {
+  /** Empty script */
+  EMPTY_SCRIPT: new Uint8Array(0),
+  
+  /** OP_FALSE OP_RETURN prefix for unspendable outputs */
+  OP_RETURN_PREFIX: new Uint8Array([0x00, 0x6a]),
+  
+  /** P2PKH script template size (25 bytes) */
+  P2PKH_SCRIPT_SIZE: 25,
+  
+  /** P2SH script template size (23 bytes) */
+  P2SH_SCRIPT_SIZE: 23,
+} as const;
+
+/**
+ * Opcodes that carry a 36-byte reference immediately after the opcode byte
+ */
+export const REF_OPERAND_OPCODES: readonly number[] = [
+  Opcodes.OP_PUSHINPUTREF,
+  Opcodes.OP_REQUIREINPUTREF,
+  Opcodes.OP_DISALLOWPUSHINPUTREF,
+  Opcodes.OP_DISALLOWPUSHINPUTREFSIBLING,
+  Opcodes.OP_PUSHINPUTREFSINGLETON,
+];
+
+/**
+ * Check if opcode is followed by a 36-byte reference operand
+ */
+export function hasRefOperand(opcode: number): boolean {
+  return REF_OPERAND_OPCODES.includes(opcode);
+}
+
+/**
+ * A single decoded script operation
+ */
+export interface ScriptChunk {
+  /** Byte offset of the opcode within the script */
+  offset: number;
+  /** Opcode byte */
+  opcode: number;
+  /** Pushed data (data pushes) or reference operand (reference opcodes) */
+  data?: Uint8Array;
+  /** Set when the push runs past the end of the script; `data` holds whatever payload bytes were present */
+  truncated?: boolean;
+}
+
+/**
+ * Result of disassembling a script
+ */
+export interface DisassembledScript {
+  /** Decoded operations in script order */
+  chunks: ScriptChunk[];
+  /** Space-separated ASM representation */
+  asm: string;
+}
+
+/**
+ * Decode a script into chunks, reading push data lengths for
+ * direct pushes (0x01-0x4b), OP_PUSHDATA1/2/4 and reference operands.
+ *
+ * Decoding stops after the first truncated chunk.
+ */
+export function parseScript(script: Uint8Array): ScriptChunk[] {
+  const chunks: ScriptChunk[] = [];
+  let pc = 0;
+
+  while (pc < script.length) {
+    const offset = pc;
+    const opcode = script[pc++];
+
+    let size: number | undefined;
+    if (opcode >= 0x01 && opcode < Opcodes.OP_PUSHDATA1) {
+      size = opcode;
+    } else if (opcode === Opcodes.OP_PUSHDATA1 || opcode === Opcodes.OP_PUSHDATA2 || opcode === Opcodes.OP_PUSHDATA4) {
+      const lengthBytes = opcode === Opcodes.OP_PUSHDATA1 ? 1 : opcode === Opcodes.OP_PUSHDATA2 ? 2 : 4;
+      if (pc + lengthBytes > script.length) {
+        chunks.push({ offset, opcode, data: new Uint8Array(0), truncated: true });
+        break;
+      }
+      size = 0;
+      for (let i = lengthBytes - 1; i >= 0; i--) {
+        size = size * 256 + script[pc + i];
+      }
+      pc += lengthBytes;
+    } else if (hasRefOperand(opcode)) {
+      size = Limits.REF_SIZE;
+    }
+
+    if (size === undefined) {
+      chunks.push({ offset, opcode });
+      continue;
+    }
+
+    if (pc + size > script.length) {
+      chunks.push({ offset, opcode, data: script.slice(pc), truncated: true });
+      break;
+    }
+    chunks.push({ offset, opcode, data: script.slice(pc, pc + size) });
+    pc += size;
+  }
+
+  return chunks;
+}
+
+/**
+ * Get the push opcode required by SCRIPT_VERIFY_MINIMALDATA for the given data
+ */
+export function getMinimalPushOpcode(data: Uint8Array): number {
+  if (data.length === 0) return Opcodes.OP_0;
+  if (data.length === 1 && data[0] >= 1 && data[0] <= 16) return Opcodes.OP_1 + data[0] - 1;
+  if (data.length === 1 && data[0] === 0x81) return Opcodes.OP_1NEGATE;
+  if (data.length < Opcodes.OP_PUSHDATA1) return data.length;
+  if (data.length <= 0xff) return Opcodes.OP_PUSHDATA1;
+  if (data.length <= 0xffff) return Opcodes.OP_PUSHDATA2;
+  return Opcodes.OP_PUSHDATA4;
+}
+
+/**
+ * Check if a push uses the minimal encoding (SCRIPT_VERIFY_MINIMALDATA)
+ */
+export function isMinimalPush(opcode: number, data: Uint8Array = new Uint8Array(0)): boolean {
+  return getMinimalPushOpcode(data) === opcode;
+}
+
+/**
+ * Encode a data push using the minimal push opcode
+ */
+export function encodePushData(data: Uint8Array): Uint8Array {
+  const opcode = getMinimalPushOpcode(data);
+  if (opcode === Opcodes.OP_0 || opcode === Opcodes.OP_1NEGATE || opcode >= Opcodes.OP_1) {
+    return new Uint8Array([opcode]);
+  }
+  return encodePush(opcode, data);
+}
+
+/**
+ * Encode a push with an explicit push opcode (direct push or OP_PUSHDATA1/2/4)
+ * @throws Error if the data does not fit the opcode
+ */
+function encodePush(opcode: number, data: Uint8Array): Uint8Array {
+  let header: number[];
+  if (opcode >= 0x01 && opcode < Opcodes.OP_PUSHDATA1) {
+    if (data.length !== opcode) {
+      throw new Error(`Direct push 0x${opcode.toString(16).padStart(2, '0')} requires ${opcode} bytes, got ${data.length}`);
+    }
+    header = [opcode];
+  } else if (opcode === Opcodes.OP_PUSHDATA1 && data.length <= 0xff) {
+    header = [opcode, data.length];
+  } else if (opcode === Opcodes.OP_PUSHDATA2 && data.length <= 0xffff) {
+    header = [opcode, data.length & 0xff, data.length >>> 8];
+  } else if (opcode === Opcodes.OP_PUSHDATA4) {
+    header = [opcode, data.length & 0xff, (data.length >>> 8) & 0xff, (data.length >>> 16) & 0xff, data.length >>> 24];
+  } else {
+    throw new Error(`${getOpcodeName(opcode)} cannot push ${data.length} bytes`);
+  }
+  const out = new Uint8Array(header.length + data.length);
+  out.set(header);
+  out.set(data, header.length);
+  return out;
+}
+
+/**
+ * Encode an integer as a minimal script number push
+ * (OP_0, OP_1NEGATE, OP_1-OP_16 or a sign-magnitude little-endian push)
+ */
+export function encodePushNumber(value: bigint | number): Uint8Array {
+  const n = BigInt(value);
+  if (n === 0n) return new Uint8Array([Opcodes.OP_0]);
+  if (n === -1n) return new Uint8Array([Opcodes.OP_1NEGATE]);
+  if (n >= 1n && n <= 16n) return new Uint8Array([Opcodes.OP_1 + Number(n) - 1]);
+  return encodePushData(encodeScriptNum(n, { maxSize: Infinity }));
+}
+
+/**
+ * Opcode name used in ASM. Where a byte has aliases (OP_0/OP_FALSE,
+ * OP_CHECKLOCKTIMEVERIFY/OP_NOP2, ...) this is the canonical name from
+ * the opcode metadata table rather than the `OpcodeNames` entry.
+ */
+export function getAsmOpcodeName(opcode: number): string {
+  return getOpcodeInfo(opcode)?.name ?? getOpcodeName(opcode);
+}
+
+/**
+ * Format a single chunk as ASM.
+ *
+ * Direct pushes are shown as bare hex, OP_PUSHDATA1/2/4 and reference
+ * opcodes as the opcode name followed by their operand in hex.
+ * Non-minimal direct pushes and empty OP_PUSHDATA pushes are shown as
+ * raw `0x` bytes so that `assembleScript` reproduces them exactly.
+ * Truncated chunks end with `[error]`.
+ */
+export function chunkToAsm(chunk: ScriptChunk): string {
+  const { opcode, data } = chunk;
+  const isDirectPush = opcode >= 0x01 && opcode < Opcodes.OP_PUSHDATA1;
+
+  let asm: string;
+  if (data === undefined) {
+    asm = getAsmOpcodeName(opcode);
+  } else if (isDirectPush) {
+    asm = chunk.truncated || isMinimalPush(opcode, data)
+      ? bytesToHex(data)
+      : `0x${bytesToHex(encodePush(opcode, data))}`;
+  } else if (data.length > 0) {
+    asm = `${getAsmOpcodeName(opcode)} ${bytesToHex(data)}`;
+  } else {
+    asm = chunk.truncated ? getAsmOpcodeName(opcode) : `0x${bytesToHex(encodePush(opcode, data))}`;
+  }
+
+  if (chunk.truncated) {
+    asm = isDirectPush && data?.length === 0 ? '[error]' : `${asm} [error]`;
+  }
+  return asm;
+}
+
+/**
+ * Disassemble raw script bytes into chunks and ASM text
+ */
+export function disassembleScript(script: Uint8Array): DisassembledScript {
+  const chunks = parseScript(script);
+  return {
+    chunks,
+    asm: chunks.map(chunkToAsm).join(' '),
+  };
+}
+
+/**
+ * Assemble ASM text into script bytes.
+ *
+ * Accepted tokens (whitespace separated):
+ * - Opcode names from `Opcodes`, including aliases (`OP_FALSE`, `OP_TRUE`, `OP_NOP2`, ...)
+ * - `UNKNOWN_0x..` for unassigned opcodes, as written by `disassembleScript`
+ * - Bare hex (`abcd`): data push using the minimal encoding
+ * - Decimal integers in angle brackets (`<-1>`, `<16>`, `<1000>`): minimal number push
+ * - `0x`-prefixed hex (`0x4c01ff`): raw bytes copied verbatim
+ * - `OP_PUSHDATA1/2/4 <hex>`: data push with that explicit encoding
+ * - Reference opcodes followed by their 36-byte operand in hex
+ *
+ * Minimally encoded scripts round-trip losslessly through `disassembleScript`.
+ *
+ * @throws Error on unknown tokens or malformed operands
+ */
+export function assembleScript(asm: string): Uint8Array {
+  const tokens = asm.trim().split(/\s+/).filter(token => token.length > 0);
+  const parts: Uint8Array[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (Object.prototype.hasOwnProperty.call(Opcodes, token)) {
+      const opcode: number = Opcodes[token as keyof typeof Opcodes];
+      const isPushData = opcode === Opcodes.OP_PUSHDATA1 || opcode === Opcodes.OP_PUSHDATA2 || opcode === Opcodes.OP_PUSHDATA4;
+
+      if (isPushData || hasRefOperand(opcode)) {
+        const operand = tokens[i + 1];
+        if (operand === undefined || !/^([0-9a-fA-F]{2})*$/.test(operand)) {
+          throw new Error(`${token} must be followed by hex data`);
+        }
+        i++;
+        const data = hexToBytes(operand);
+        if (isPushData) {
+          parts.push(encodePush(opcode, data));
+          continue;
+        }
+        if (data.length !== Limits.REF_SIZE) {
+          throw new Error(`${token} requires a ${Limits.REF_SIZE}-byte reference, got ${data.length} bytes`);
+        }
+        parts.push(new Uint8Array([opcode]), data);
+        continue;
+      }
+
+      parts.push(new Uint8Array([opcode]));
+    } else if (/^UNKNOWN_0x[0-9a-f]{2}$/.test(token)) {
+      parts.push(new Uint8Array([parseInt(token.slice(10), 16)]));
+    } else if (/^<-?\d+>$/.test(token)) {
+      parts.push(encodePushNumber(BigInt(token.slice(1, -1))));
+    } else if (/^0x([0-9a-fA-F]{2})+$/.test(token)) {
+      parts.push(hexToBytes(token.slice(2)));
+    } else if (/^([0-9a-fA-F]{2})+$/.test(token)) {
+      parts.push(encodePushData(hexToBytes(token)));
+    } else {
+      throw new Error(`Invalid ASM token: "${token}"`);
+    }
+  }
+
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const script = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    script.set(part, offset);
+    offset += part.length;
+  }
+  return script;
+}
+
+/**
+ * A script split at OP_STATESEPARATOR
+ */
+export interface StateScriptSplit {
+  /** Bytes before the separator (empty when there is no separator) */
+  stateScript: Uint8Array;
+  /** Bytes after the separator (the whole script when there is no separator) */
+  codeScript: Uint8Array;
+  /** Byte index of OP_STATESEPARATOR, or -1 when the script has none */
+  separatorIndex: number;
+  /** hash256 of the code script, as compared by the OP_CODESCRIPTHASH* opcodes */
+  codeScriptHash: Uint8Array;
+}
+
+/**
+ * Find the byte index of the first OP_STATESEPARATOR opcode,
+ * skipping 0xbd bytes inside push data and reference operands.
+ * Returns -1 when the script has no separator.
+ */
+export function findStateSeparator(script: Uint8Array): number {
+  for (const chunk of parseScript(script)) {
+    if (chunk.opcode === Opcodes.OP_STATESEPARATOR) {
+      return chunk.offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a script into its state script and code script at OP_STATESEPARATOR
+ */
+export function splitStateScript(script: Uint8Array): StateScriptSplit {
+  const separatorIndex = findStateSeparator(script);
+  const stateScript = separatorIndex === -1 ? new Uint8Array(0) : script.slice(0, separatorIndex);
+  const codeScript = script.slice(separatorIndex + 1);
+  return {
+    stateScript,
+    codeScript,
+    separatorIndex,
+    codeScriptHash: hash256(codeScript),
+  };
+}
+
+/**
+ * Count the operations that count toward MAX_OPS_PER_SCRIPT: every opcode
+ * above OP_16, including those in unexecuted branches. The node also adds the
+ * key count of each executed CHECKMULTISIG, which is not known statically.
+ */
+export function countOps(script: Uint8Array): number {
+  return parseScript(script).filter(chunk => chunk.opcode > Opcodes.OP_16).length;
+}
+
+/**
+ * Count the signature checks a script performs, assuming every signature is
+ * non-empty and every branch executes.
+ *
+ * OP_CHECKSIG(VERIFY) and OP_CHECKDATASIG(VERIFY) cost one check each. A
+ * legacy OP_CHECKMULTISIG(VERIFY) costs one check per key (N). With
+ * SCRIPT_ENABLE_SCHNORR_MULTISIG, `OP_M <keys> OP_N OP_CHECKMULTISIG` is
+ * counted in Schnorr bitfield mode at one check per signature (M). Key or
+ * signature counts that are not small-integer opcodes are counted as
+ * MAX_PUBKEYS_PER_MULTISIG.
+ */
+export function countSigChecks(script: Uint8Array, flags: number): number {
+  const chunks = parseScript(script);
+  const schnorrMultisig = hasFlag(flags, ScriptFlags.SCRIPT_ENABLE_SCHNORR_MULTISIG);
+  const smallInt = (chunk: ScriptChunk | undefined) =>
+    chunk && chunk.opcode >= Opcodes.OP_1 && chunk.opcode <= Opcodes.OP_16
+      ? chunk.opcode - Opcodes.OP_1 + 1
+      : chunk?.opcode === Opcodes.OP_0 ? 0 : undefined;
+
+  let count = 0;
+  chunks.forEach((chunk, i) => {
+    switch (chunk.opcode) {
+      case Opcodes.OP_CHECKSIG:
+      case Opcodes.OP_CHECKSIGVERIFY:
+      case Opcodes.OP_CHECKDATASIG:
+      case Opcodes.OP_CHECKDATASIGVERIFY:
+        count++;
+        break;
+      case Opcodes.OP_CHECKMULTISIG:
+      case Opcodes.OP_CHECKMULTISIGVERIFY: {
+        const keyCount = smallInt(chunks[i - 1]);
+        if (keyCount === undefined) {
+          count += Limits.MAX_PUBKEYS_PER_MULTISIG;
+          break;
+        }
+        const sigCount = smallInt(chunks[i - keyCount - 2]);
+        count += schnorrMultisig && sigCount !== undefined && sigCount <= keyCount ? sigCount : keyCount;
+        break;
+      }
+    }
+  });
+  return count;
+}
+
+export default {
+  ScriptConstants,
+  REF_OPERAND_OPCODES,
+  hasRefOperand,
+  parseScript,
+  getMinimalPushOpcode,
+  isMinimalPush,
+  encodePushData,
+  encodePushNumber,
+  getAsmOpcodeName,
+  chunkToAsm,
+  disassembleScript,
+  assembleScript,
+  findStateSeparator,
+  splitStateScript,
+  countOps,
+  countSigChecks,
+};
@@ -0,0 +1,150 @@
+/**
+ * @radiantblockchain/constants - Script Numbers
+ *
+ * CScriptNum encoding: sign-magnitude, little-endian, with the sign in the
+ * high bit of the last byte. Zero is the empty byte vector.
+ *
+ * Reference: Radiant-Core src/script/script.h (CScriptNum)
+ */
+
+import { Limits } from './limits';
+import { ScriptFlags, hasFlag } from './flags';
+
+/**
+ * Options for script number encoding and decoding
+ */
+export interface ScriptNumOptions {
+  /**
+   * Script verification flags. Selects the 8-byte limit when
+   * SCRIPT_64_BIT_INTEGERS is set (4 bytes otherwise) and requires
+   * minimal encoding when SCRIPT_VERIFY_MINIMALDATA is set.
+   */
+  flags?: number;
+  /** Maximum encoded size in bytes (overrides `flags`) */
+  maxSize?: number;
+  /** Reject non-minimal encodings when decoding (overrides `flags`) */
+  requireMinimal?: boolean;
+}
+
+/**
+ * Get the maximum script number size for a set of script flags
+ */
+export function getScriptNumMaxSize(flags: number): number {
+  return hasFlag(flags, ScriptFlags.SCRIPT_64_BIT_INTEGERS)
+    ? Limits.MAX_SCRIPTNUM_SIZE_64_BIT
+    : Limits.MAX_SCRIPTNUM_SIZE_32_BIT;
+}
+
+function resolveMaxSize(options: ScriptNumOptions): number {
+  if (options.maxSize !== undefined) return options.maxSize;
+  if (options.flags !== undefined) return getScriptNumMaxSize(options.flags);
+  return Limits.MAX_SCRIPTNUM_SIZE;
+}
+
+function resolveRequireMinimal(options: ScriptNumOptions): boolean {
+  if (options.requireMinimal !== undefined) return options.requireMinimal;
+  if (options.flags !== undefined) return hasFlag(options.flags, ScriptFlags.SCRIPT_VERIFY_MINIMALDATA);
+  return true;
+}
+
+/**
+ * Encode an integer as a script number
+ * @throws Error if the encoding exceeds the maximum size
+ */
+export function encodeScriptNum(value: bigint | number, options: ScriptNumOptions = {}): Uint8Array {
+  let n = BigInt(value);
+  const negative = n < 0n;
+  if (negative) n = -n;
+
+  const bytes: number[] = [];
+  while (n > 0n) {
+    bytes.push(Number(n & 0xffn));
+    n >>= 8n;
+  }
+
+  // If the most significant byte has its high bit set, an extra byte is
+  // needed to carry the sign; otherwise the sign goes into that bit.
+  if (bytes.length > 0) {
+    if (bytes[bytes.length - 1] & 0x80) {
+      bytes.push(negative ? 0x80 : 0x00);
+    } else if (negative) {
+      bytes[bytes.length - 1] |= 0x80;
+    }
+  }
+
+  const maxSize = resolveMaxSize(options);
+  if (bytes.length > maxSize) {
+    throw new Error(`Script number ${value} exceeds ${maxSize} bytes`);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Check if a script number is minimally encoded
+ */
+export function isMinimalScriptNum(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return true;
+  // The last byte may only be 0x00 or 0x80 if it is needed to carry the
+  // sign, i.e. the previous byte has its high bit set.
+  if ((bytes[bytes.length - 1] & 0x7f) === 0) {
+    return bytes.length > 1 && (bytes[bytes.length - 2] & 0x80) !== 0;
+  }
+  return true;
+}
+
+/**
+ * Re-encode a byte vector as a minimally encoded script number (OP_BIN2NUM)
+ */
+export function minimallyEncodeScriptNum(bytes: Uint8Array): Uint8Array {
+  if (bytes.length === 0) return new Uint8Array(0);
+
+  const last = bytes[bytes.length - 1];
+  if (last & 0x7f) return bytes.slice();
+  if (bytes.length === 1) return new Uint8Array(0);
+  if (bytes[bytes.length - 2] & 0x80) return bytes.slice();
+
+  // Drop padding bytes, keeping the sign bit.
+  for (let i = bytes.length - 1; i > 0; i--) {
+    if (bytes[i - 1] !== 0) {
+      if (bytes[i - 1] & 0x80) {
+        const out = bytes.slice(0, i + 1);
+        out[i] = last;
+        return out;
+      }
+      const out = bytes.slice(0, i);
+      out[i - 1] |= last;
+      return out;
+    }
+  }
+  return new Uint8Array(0);
+}
+
+/**
+ * Decode a script number
+ * @throws Error if the encoding exceeds the maximum size or is not minimal
+ */
+export function decodeScriptNum(bytes: Uint8Array, options: ScriptNumOptions = {}): bigint {
+  const maxSize = resolveMaxSize(options);
+  if (bytes.length > maxSize) {
+    throw new Error(`Script number overflow: ${bytes.length} bytes exceeds ${maxSize}`);
+  }
+  if (resolveRequireMinimal(options) && !isMinimalScriptNum(bytes)) {
+    throw new Error('Non-minimally encoded script number');
+  }
+  if (bytes.length === 0) return 0n;
+
+  let result = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    const byte = i === bytes.length - 1 ? bytes[i] & 0x7f : bytes[i];
+    result = (result << 8n) | BigInt(byte);
+  }
+  return bytes[bytes.length - 1] & 0x80 ? -result : result;
+}
+
+export default {
+  getScriptNumMaxSize,
+  encodeScriptNum,
+  decodeScriptNum,
+  isMinimalScriptNum,
+  minimallyEncodeScriptNum,
+};
@@ -0,0 +1,329 @@
+/**
+ * @radiantblockchain/constants - Signature Hashes
+ *
+ * The SIGHASH_FORKID digest that transaction signatures commit to. It is
+ * the BIP143-style digest of Bitcoin Cash with one Radiant addition:
+ * `hashOutputHashes`, a hash of per-output summaries (value, script hash,
+ * ref count and refs hash), placed before `hashOutputs`.
+ *
+ * Preimage layout:
+ * version | hashPrevouts | hashSequence | outpoint | scriptCode | amount |
+ * sequence | hashOutputHashes | hashOutputs | lockTime | sighashType
+ *
+ * Reference: Radiant-Core src/script/interpreter.cpp (SignatureHash)
+ */
+
+import { Opcodes } from './opcodes';
+import { ScriptFlags, SigHashType, hasFlag } from './flags';
+import { ScriptError } from './errors';
+import type { ScriptErrorCode } from './errors';
+import { bytesToHex, hexToBytes } from './encoding';
+import { hash256 } from './crypto';
+import { parseScript } from './script';
+import { refToBytes } from './refs';
+import { encodeVarInt } from './transaction';
+import type { Transaction, TxOutput } from './transaction';
+
+/** Mask selecting ALL, NONE or SINGLE from a sighash type */
+const BASE_TYPE_MASK = 0x1f;
+
+/** Base type names, as used by `formatSighashType` */
+const BASE_TYPE_NAMES: Record<number, string> = {
+  [SigHashType.SIGHASH_ALL]: 'ALL',
+  [SigHashType.SIGHASH_NONE]: 'NONE',
+  [SigHashType.SIGHASH_SINGLE]: 'SINGLE',
+};
+
+/**
+ * Components of a sighash type byte
+ */
+export interface ParsedSighashType {
+  /** Byte with FORKID and ANYONECANPAY cleared; ALL, NONE or SINGLE when defined */
+  base: number;
+  anyoneCanPay: boolean;
+  forkId: boolean;
+}
+
+const ZERO_HASH: Uint8Array = new Uint8Array(32);
+
+/**
+ * Refs carried by an output script, keyed by raw hex
+ */
+export interface OutputRefs {
+  /** Refs pushed with OP_PUSHINPUTREF */
+  normal: Set<string>;
+  /** Refs pushed with OP_PUSHINPUTREFSINGLETON */
+  singleton: Set<string>;
+  /** All carried refs, sorted and de-duplicated */
+  all: string[];
+}
+
+function writeUint32LE(out: number[], value: number): void {
+  out.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+function writeUint64LE(out: number[], value: bigint): void {
+  for (let i = 0n; i < 8n; i++) {
+    out.push(Number((value >> (8n * i)) & 0xffn));
+  }
+}
+
+function writeBytes(out: number[], bytes: Uint8Array): void {
+  for (const byte of bytes) out.push(byte);
+}
+
+function assertByte(sighashType: number): void {
+  if (!Number.isInteger(sighashType) || sighashType < 0 || sighashType > 0xff) {
+    throw new Error(`Sighash type must be a byte, got ${sighashType}`);
+  }
+}
+
+/**
+ * Split a sighash type byte into its base type and modifier bits
+ * @throws Error if the value is not a byte
+ */
+export function parseSighashType(sighashType: number): ParsedSighashType {
+  assertByte(sighashType);
+  return {
+    base: sighashType & ~(SigHashType.SIGHASH_FORKID | SigHashType.SIGHASH_ANYONECANPAY),
+    anyoneCanPay: hasFlag(sighashType, SigHashType.SIGHASH_ANYONECANPAY),
+    forkId: hasFlag(sighashType, SigHashType.SIGHASH_FORKID),
+  };
+}
+
+/**
+ * Check a sighash type against the script flags, returning `SIG_HASHTYPE`
+ * for an undefined base type and `ILLEGAL_FORKID` / `MUST_USE_FORKID` when
+ * FORKID use does not match SCRIPT_ENABLE_SIGHASH_FORKID. Without
+ * SCRIPT_VERIFY_STRICTENC every byte is accepted.
+ * @throws Error if the value is not a byte
+ */
+export function checkSighashType(sighashType: number, flags: number): ScriptErrorCode {
+  const { base, forkId } = parseSighashType(sighashType);
+  if (!hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_STRICTENC)) return ScriptError.OK;
+  if (base < SigHashType.SIGHASH_ALL || base > SigHashType.SIGHASH_SINGLE) return ScriptError.SIG_HASHTYPE;
+  const forkIdEnabled = hasFlag(flags, ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID);
+  if (forkId && !forkIdEnabled) return ScriptError.ILLEGAL_FORKID;
+  if (!forkId && forkIdEnabled) return ScriptError.MUST_USE_FORKID;
+  return ScriptError.OK;
+}
+
+/**
+ * Check whether a sighash type is acceptable under the script flags
+ */
+export function isValidSighashType(sighashType: number, flags: number): boolean {
+  return checkSighashType(sighashType, flags) === ScriptError.OK;
+}
+
+/**
+ * Format a sighash type as `BASE|FORKID|ANYONECANPAY`, e.g. `ALL|FORKID`.
+ * An undefined base type is shown as hex, e.g. `0x00|FORKID`.
+ * @throws Error if the value is not a byte
+ */
+export function formatSighashType(sighashType: number): string {
+  const { base, anyoneCanPay, forkId } = parseSighashType(sighashType);
+  const parts = [BASE_TYPE_NAMES[base] ?? `0x${base.toString(16).padStart(2, '0')}`];
+  if (forkId) parts.push('FORKID');
+  if (anyoneCanPay) parts.push('ANYONECANPAY');
+  return parts.join('|');
+}
+
+/**
+ * Parse the `formatSighashType` form back into a byte. Names are
+ * case-insensitive, may carry a `SIGHASH_` prefix and may come in any order.
+ * @throws Error for unknown or repeated names, or a missing base type
+ */
+export function parseSighashTypeString(str: string): number {
+  let base: number | undefined;
+  let modifiers = 0;
+  for (const part of str.split('|')) {
+    const name = part.trim().toUpperCase().replace(/^SIGHASH_/, '');
+    let value: number;
+    let isBase = true;
+    if (name === 'FORKID' || name === 'ANYONECANPAY') {
+      value = name === 'FORKID' ? SigHashType.SIGHASH_FORKID : SigHashType.SIGHASH_ANYONECANPAY;
+      isBase = false;
+    } else if (/^0X[0-9A-F]{1,2}$/.test(name)) {
+      value = parseInt(name.slice(2), 16);
+      if (value & (SigHashType.SIGHASH_FORKID | SigHashType.SIGHASH_ANYONECANPAY)) {
+        throw new Error(`Sighash base type ${part.trim()} overlaps FORKID or ANYONECANPAY`);
+      }
+    } else {
+      const entry = Object.entries(BASE_TYPE_NAMES).find(([, baseName]) => baseName === name);
+      if (!entry) throw new Error(`Unknown sighash type component: "${part.trim()}"`);
+      value = Number(entry[0]);
+    }
+
+    if (isBase) {
+      if (base !== undefined) throw new Error(`Sighash type has more than one base type: "${str}"`);
+      base = value;
+    } else {
+      if (modifiers & value) throw new Error(`Repeated sighash type component: "${part.trim()}"`);
+      modifiers |= value;
+    }
+  }
+  if (base === undefined) {
+    throw new Error(`Sighash type has no base type: "${str}"`);
+  }
+  return base | modifiers;
+}
+
+/**
+ * Collect the refs an output script carries forward
+ */
+export function getOutputRefs(script: Uint8Array): OutputRefs {
+  const normal = new Set<string>();
+  const singleton = new Set<string>();
+  for (const chunk of parseScript(script)) {
+    if (chunk.truncated || chunk.data === undefined) continue;
+    if (chunk.opcode === Opcodes.OP_PUSHINPUTREF) normal.add(bytesToHex(chunk.data));
+    if (chunk.opcode === Opcodes.OP_PUSHINPUTREFSINGLETON) singleton.add(bytesToHex(chunk.data));
+  }
+  const all = [...new Set([...normal, ...singleton])].sort();
+  return { normal, singleton, all };
+}
+
+/**
+ * Hash of the sorted refs of an output, or 32 zero bytes when it has none
+ */
+export function getRefsHash(refs: OutputRefs): Uint8Array {
+  if (refs.all.length === 0) return ZERO_HASH.slice();
+  return hash256(new Uint8Array(refs.all.flatMap(hex => [...hexToBytes(hex)])));
+}
+
+/**
+ * Output data summary: value, script hash, ref count and refs hash
+ */
+export function getOutputDataSummary(output: TxOutput, refs: OutputRefs = getOutputRefs(output.script)): Uint8Array {
+  const out: number[] = [];
+  writeUint64LE(out, output.value);
+  writeBytes(out, hash256(output.script));
+  writeUint32LE(out, refs.all.length);
+  writeBytes(out, getRefsHash(refs));
+  return new Uint8Array(out);
+}
+
+function serializeOutput(out: number[], output: TxOutput): void {
+  writeUint64LE(out, output.value);
+  writeBytes(out, encodeVarInt(output.script.length));
+  writeBytes(out, output.script);
+}
+
+function getHashPrevouts(tx: Transaction): Uint8Array {
+  const out: number[] = [];
+  for (const input of tx.inputs) writeBytes(out, refToBytes(input.prevout));
+  return hash256(new Uint8Array(out));
+}
+
+function getHashSequence(tx: Transaction): Uint8Array {
+  const out: number[] = [];
+  for (const input of tx.inputs) writeUint32LE(out, input.sequence);
+  return hash256(new Uint8Array(out));
+}
+
+function getHashOutputs(outputs: TxOutput[]): Uint8Array {
+  const out: number[] = [];
+  for (const output of outputs) serializeOutput(out, output);
+  return hash256(new Uint8Array(out));
+}
+
+function getHashOutputHashes(outputs: TxOutput[]): Uint8Array {
+  const out: number[] = [];
+  for (const output of outputs) writeBytes(out, getOutputDataSummary(output));
+  return hash256(new Uint8Array(out));
+}
+
+/**
+ * Build the SIGHASH_FORKID preimage for one input.
+ *
+ * - ANYONECANPAY zeroes `hashPrevouts` and `hashSequence`.
+ * - NONE and SINGLE zero `hashSequence`.
+ * - NONE zeroes both output hashes; SINGLE commits only to the output at
+ *   `inputIndex`, or zeroes them when there is no such output.
+ *
+ * @param scriptCode Script being executed from the last OP_CODESEPARATOR
+ * @param amount Value of the output being spent, in photons
+ * @throws Error if SIGHASH_FORKID is not set, `inputIndex` is out of range
+ * or `amount` is negative
+ */
+export function computeSighashPreimage(
+  tx: Transaction,
+  inputIndex: number,
+  scriptCode: Uint8Array,
+  amount: bigint,
+  sighashType: number
+): Uint8Array {
+  if (!hasFlag(sighashType, SigHashType.SIGHASH_FORKID)) {
+    throw new Error('Sighash type must include SIGHASH_FORKID');
+  }
+  if (!Number.isInteger(inputIndex) || inputIndex < 0 || inputIndex >= tx.inputs.length) {
+    throw new Error(`Input index ${inputIndex} out of range for ${tx.inputs.length} inputs`);
+  }
+  if (amount < 0n) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const anyoneCanPay = hasFlag(sighashType, SigHashType.SIGHASH_ANYONECANPAY);
+  const baseType = sighashType & BASE_TYPE_MASK;
+  const single = baseType === SigHashType.SIGHASH_SINGLE;
+  const none = baseType === SigHashType.SIGHASH_NONE;
+
+  const hashPrevouts = anyoneCanPay ? ZERO_HASH : getHashPrevouts(tx);
+  const hashSequence = anyoneCanPay || single || none ? ZERO_HASH : getHashSequence(tx);
+
+  let hashOutputHashes = ZERO_HASH;
+  let hashOutputs = ZERO_HASH;
+  if (!single && !none) {
+    hashOutputHashes = getHashOutputHashes(tx.outputs);
+    hashOutputs = getHashOutputs(tx.outputs);
+  } else if (single && inputIndex < tx.outputs.length) {
+    const output = [tx.outputs[inputIndex]];
+    hashOutputHashes = getHashOutputHashes(output);
+    hashOutputs = getHashOutputs(output);
+  }
+
+  const input = tx.inputs[inputIndex];
+  const out: number[] = [];
+  writeUint32LE(out, tx.version);
+  writeBytes(out, hashPrevouts);
+  writeBytes(out, hashSequence);
+  writeBytes(out, refToBytes(input.prevout));
+  writeBytes(out, encodeVarInt(scriptCode.length));
+  writeBytes(out, scriptCode);
+  writeUint64LE(out, amount);
+  writeUint32LE(out, input.sequence);
+  writeBytes(out, hashOutputHashes);
+  writeBytes(out, hashOutputs);
+  writeUint32LE(out, tx.lockTime);
+  writeUint32LE(out, sighashType);
+  return new Uint8Array(out);
+}
+
+/**
+ * Message digest signed for one input: double SHA-256 of the preimage, in
+ * the byte order passed to ECDSA/Schnorr signing
+ * @throws Error if SIGHASH_FORKID is not set, `inputIndex` is out of range
+ * or `amount` is negative
+ */
+export function computeSighash(
+  tx: Transaction,
+  inputIndex: number,
+  scriptCode: Uint8Array,
+  amount: bigint,
+  sighashType: number
+): Uint8Array {
+  return hash256(computeSighashPreimage(tx, inputIndex, scriptCode, amount, sighashType));
+}
+
+export default {
+  parseSighashType,
+  checkSighashType,
+  isValidSighashType,
+  formatSighashType,
+  parseSighashTypeString,
+  getOutputRefs,
+  getRefsHash,
+  getOutputDataSummary,
+  computeSighashPreimage,
+  computeSighash,
+};
@@ -0,0 +1,176 @@
+/**
+ * @radiantblockchain/constants - Signature Encoding
+ *
+ * Encoding rules for signatures and public keys under SCRIPT_VERIFY_DERSIG,
+ * SCRIPT_VERIFY_LOW_S and SCRIPT_VERIFY_STRICTENC. A 64-byte signature is
+ * Schnorr and exempt from the DER rules; anything else is ECDSA and must be
+ * strict DER (BIP66). Each check returns the `ScriptError` the node would
+ * report, or `OK`. `verifySignature` checks a signature against a digest:
+ * ECDSA, or the Bitcoin Cash Schnorr scheme (not BIP340).
+ *
+ * Reference: Radiant-Core src/script/sigencoding.cpp, src/pubkey.cpp
+ */
+
+import { Limits } from './limits';
+import { ScriptFlags, hasFlag } from './flags';
+import { ScriptError } from './errors';
+import type { ScriptErrorCode } from './errors';
+import { SECP256K1_ORDER } from './keys';
+import { checkSighashType } from './sighash';
+import { bytesToHex } from './encoding';
+import { sha256 } from './crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * Size of a Schnorr signature, without the sighash byte
+ */
+export const SCHNORR_SIGNATURE_SIZE = 64;
+
+/**
+ * Smallest strict DER signature, without the sighash byte
+ */
+export const MIN_DER_SIGNATURE_SIZE = 8;
+
+/**
+ * Largest strict DER signature, without the sighash byte
+ */
+export const MAX_DER_SIGNATURE_SIZE = 72;
+
+const SECP256K1_HALF_ORDER = SECP256K1_ORDER >> 1n;
+
+const Point = secp256k1.ProjectivePoint;
+const Fp = secp256k1.CURVE.Fp;
+
+/**
+ * Check that a signature (without sighash byte) is strict DER:
+ * `0x30 <len> 0x02 <lenR> <R> 0x02 <lenS> <S>` with minimally encoded,
+ * non-negative R and S
+ */
+export function isValidDerSignature(sig: Uint8Array): boolean {
+  if (sig.length < MIN_DER_SIGNATURE_SIZE || sig.length > MAX_DER_SIGNATURE_SIZE) return false;
+  if (sig[0] !== 0x30 || sig[1] !== sig.length - 2) return false;
+  const lenR = sig[3];
+  if (5 + lenR >= sig.length) return false;
+  const lenS = sig[5 + lenR];
+  if (lenR + lenS + 6 !== sig.length) return false;
+  if (sig[2] !== 0x02 || lenR === 0 || sig[4] & 0x80) return false;
+  if (lenR > 1 && sig[4] === 0x00 && !(sig[5] & 0x80)) return false;
+  if (sig[lenR + 4] !== 0x02 || lenS === 0 || sig[lenR + 6] & 0x80) return false;
+  if (lenS > 1 && sig[lenR + 6] === 0x00 && !(sig[lenR + 7] & 0x80)) return false;
+  return true;
+}
+
+/**
+ * Check that the S value of a strict DER signature is at most half the
+ * curve order (BIP62 rule 5)
+ */
+export function isLowDerSignature(sig: Uint8Array): boolean {
+  if (!isValidDerSignature(sig)) return false;
+  const lenR = sig[3];
+  const lenS = sig[5 + lenR];
+  const s = BigInt('0x' + bytesToHex(sig.slice(6 + lenR, 6 + lenR + lenS)));
+  return s <= SECP256K1_HALF_ORDER;
+}
+
+function checkRawSignatureEncoding(sig: Uint8Array, flags: number): ScriptErrorCode {
+  if (sig.length === SCHNORR_SIGNATURE_SIZE) return ScriptError.OK;
+  if (
+    hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_DERSIG | ScriptFlags.SCRIPT_VERIFY_LOW_S | ScriptFlags.SCRIPT_VERIFY_STRICTENC) &&
+    !isValidDerSignature(sig)
+  ) {
+    return ScriptError.SIG_DER;
+  }
+  if (hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_LOW_S) && !isLowDerSignature(sig)) {
+    return ScriptError.SIG_HIGH_S;
+  }
+  return ScriptError.OK;
+}
+
+/**
+ * Check a transaction signature (with its trailing sighash byte), as passed
+ * to OP_CHECKSIG and OP_CHECKMULTISIG. An empty signature is always
+ * accepted; it makes the check fail without an error.
+ */
+export function checkSignatureEncoding(sig: Uint8Array, flags: number): ScriptErrorCode {
+  if (sig.length === 0) return ScriptError.OK;
+  const error = checkRawSignatureEncoding(sig.subarray(0, -1), flags);
+  if (error !== ScriptError.OK) return error;
+  return checkSighashType(sig[sig.length - 1], flags);
+}
+
+/**
+ * Check an OP_CHECKDATASIG signature, which has no sighash byte
+ */
+export function checkDataSignatureEncoding(sig: Uint8Array, flags: number): ScriptErrorCode {
+  if (sig.length === 0) return ScriptError.OK;
+  return checkRawSignatureEncoding(sig, flags);
+}
+
+/**
+ * Check a public key: under STRICTENC it must be 33-byte compressed
+ * (0x02/0x03 prefix) or 65-byte uncompressed (0x04 prefix)
+ */
+export function checkPubKeyEncoding(pubKey: Uint8Array, flags: number): ScriptErrorCode {
+  if (!hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_STRICTENC)) return ScriptError.OK;
+  const compressed = pubKey.length === Limits.COMPRESSED_PUBKEY_SIZE && (pubKey[0] === 0x02 || pubKey[0] === 0x03);
+  const uncompressed = pubKey.length === Limits.UNCOMPRESSED_PUBKEY_SIZE && pubKey[0] === 0x04;
+  return compressed || uncompressed ? ScriptError.OK : ScriptError.PUBKEYTYPE;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt('0x' + bytesToHex(bytes));
+}
+
+/**
+ * Bitcoin Cash Schnorr: with e = sha256(r || compressed pubkey || digest),
+ * R = sG - eP must have x = r and a y that is a quadratic residue
+ */
+function verifySchnorr(sig: Uint8Array, digest: Uint8Array, pubKey: Uint8Array): boolean {
+  const rBytes = sig.subarray(0, 32);
+  const r = bytesToBigInt(rBytes);
+  const s = bytesToBigInt(sig.subarray(32));
+  if (r >= Fp.ORDER || s >= SECP256K1_ORDER) return false;
+  let point;
+  try {
+    point = Point.fromHex(pubKey);
+  } catch {
+    return false;
+  }
+  const hashInput = new Uint8Array(32 + 33 + digest.length);
+  hashInput.set(rBytes);
+  hashInput.set(point.toRawBytes(true), 32);
+  hashInput.set(digest, 65);
+  const e = bytesToBigInt(sha256(hashInput)) % SECP256K1_ORDER;
+  const sG = Point.BASE.multiplyUnsafe(s);
+  const R = e === 0n ? sG : sG.add(point.multiplyUnsafe(SECP256K1_ORDER - e));
+  if (R.equals(Point.ZERO)) return false;
+  const { x, y } = R.toAffine();
+  return x === r && Fp.pow(y, (Fp.ORDER - 1n) >> 1n) === 1n;
+}
+
+/**
+ * Verify a signature (without sighash byte) over a 32-byte digest: 64-byte
+ * signatures as Schnorr, anything else as DER-encoded ECDSA. High-S ECDSA
+ * signatures verify; LOW_S is an encoding rule, see `checkSignatureEncoding`.
+ */
+export function verifySignature(sig: Uint8Array, digest: Uint8Array, pubKey: Uint8Array): boolean {
+  if (sig.length === SCHNORR_SIGNATURE_SIZE) return verifySchnorr(sig, digest, pubKey);
+  try {
+    const signature = secp256k1.Signature.fromDER(sig);
+    return secp256k1.verify(signature.toCompactRawBytes(), digest, pubKey, { lowS: false, prehash: false });
+  } catch {
+    return false;
+  }
+}
+
+export default {
+  SCHNORR_SIGNATURE_SIZE,
+  MIN_DER_SIGNATURE_SIZE,
+  MAX_DER_SIGNATURE_SIZE,
+  isValidDerSignature,
+  isLowDerSignature,
+  checkSignatureEncoding,
+  checkDataSignatureEncoding,
+  checkPubKeyEncoding,
+  verifySignature,
+};
@@ -0,0 +1,130 @@
+/**
+ * @radiantblockchain/constants - Block Subsidy and Supply
+ *
+ * Coin issuance in photons. The subsidy starts at 50,000 RXD and halves
+ * (with a right shift, so fractions of a photon are dropped) every
+ * `subsidyHalvingInterval` blocks.
+ *
+ * Reference: Radiant-Core src/validation.cpp (GetBlockSubsidy)
+ */
+
+import { Limits } from './limits';
+import { mainnet } from './networks';
+import type { NetworkParams } from './networks';
+
+/**
+ * Subsidy of the first halving era in photons (50,000 RXD)
+ */
+export const INITIAL_BLOCK_SUBSIDY = 50_000n * BigInt(Limits.COIN);
+
+/**
+ * Halvings after which the subsidy is zero (a shift of 64 or more is undefined in C++)
+ */
+export const MAX_HALVINGS = 64;
+
+/**
+ * One era of the halving schedule; heights are inclusive
+ */
+export interface HalvingEra {
+  /** Number of halvings before this era (0 for the first) */
+  era: number;
+  startHeight: number;
+  endHeight: number;
+  /** Subsidy of each block in this era, in photons */
+  subsidy: bigint;
+  /** Total issued by the end of this era, in photons */
+  supplyAtEnd: bigint;
+}
+
+function assertHeight(height: number): void {
+  if (!Number.isInteger(height) || height < 0) {
+    throw new Error(`Invalid block height: ${height}`);
+  }
+}
+
+/**
+ * Subsidy of the block at `height`, in photons
+ * @throws Error if the height is not a non-negative integer
+ */
+export function getBlockSubsidy(height: number, network: NetworkParams = mainnet): bigint {
+  assertHeight(height);
+  const halvings = Math.floor(height / network.consensus.subsidyHalvingInterval);
+  if (halvings >= MAX_HALVINGS) return 0n;
+  return INITIAL_BLOCK_SUBSIDY >> BigInt(halvings);
+}
+
+/**
+ * Every era with a non-zero subsidy, in order
+ */
+export function* halvingSchedule(network: NetworkParams = mainnet): Generator<HalvingEra> {
+  const interval = network.consensus.subsidyHalvingInterval;
+  let supply = 0n;
+  for (let era = 0; era < MAX_HALVINGS; era++) {
+    const subsidy = INITIAL_BLOCK_SUBSIDY >> BigInt(era);
+    if (subsidy === 0n) return;
+    supply += subsidy * BigInt(interval);
+    yield {
+      era,
+      startHeight: era * interval,
+      endHeight: (era + 1) * interval - 1,
+      subsidy,
+      supplyAtEnd: supply,
+    };
+  }
+}
+
+/**
+ * Total subsidy issued by blocks 0 through `height` inclusive, in photons
+ * @throws Error if the height is not a non-negative integer
+ */
+export function getSupplyAtHeight(height: number, network: NetworkParams = mainnet): bigint {
+  assertHeight(height);
+  let supply = 0n;
+  for (const era of halvingSchedule(network)) {
+    if (height <= era.endHeight) {
+      return supply + era.subsidy * BigInt(height - era.startHeight + 1);
+    }
+    supply = era.supplyAtEnd;
+  }
+  return supply;
+}
+
+/**
+ * Total subsidy that will ever be issued, in photons
+ */
+export function getTotalSupply(network: NetworkParams = mainnet): bigint {
+  let supply = 0n;
+  for (const era of halvingSchedule(network)) supply = era.supplyAtEnd;
+  return supply;
+}
+
+/**
+ * Check that the asymptotic supply matches `MAX_MONEY`: it must not exceed
+ * it, and may fall short only by the photons dropped when halving (less
+ * than one per block per era).
+ */
+export function validateSupply(network: NetworkParams = mainnet): { valid: boolean; error?: string } {
+  const total = getTotalSupply(network);
+  if (total > Limits.MAX_MONEY) {
+    return { valid: false, error: `Total supply ${total} exceeds MAX_MONEY ${Limits.MAX_MONEY}` };
+  }
+  const eras = BigInt([...halvingSchedule(network)].length);
+  const maxRoundingLoss = eras * BigInt(network.consensus.subsidyHalvingInterval);
+  if (Limits.MAX_MONEY - total > maxRoundingLoss) {
+    return {
+      valid: false,
+      error: `Total supply ${total} falls short of MAX_MONEY ${Limits.MAX_MONEY} by more than halving rounding`,
+    };
+  }
+  return { valid: true };
+}
+
+export default {
+  INITIAL_BLOCK_SUBSIDY,
+  MAX_HALVINGS,
+  getBlockSubsidy,
+  halvingSchedule,
+  getSupplyAtHeight,
+  getTotalSupply,
+  validateSupply,
+};
@@ -0,0 +1,175 @@
+/**
+ * @radiantblockchain/constants - Output Templates
+ *
+ * Recognition of standard output scripts, including the Glyph token
+ * templates used by Photonic Wallet and the Glyph indexers.
+ *
+ * Reference: Radiant-Core src/script/standard.cpp
+ */
+
+import { Opcodes, isPushOpcode } from './opcodes';
+import { Limits } from './limits';
+import { ScriptConstants, parseScript } from './script';
+import { bytesEqual, hexToBytes } from './encoding';
+import type { ScriptChunk } from './script';
+
+/**
+ * Code script that follows OP_STATESEPARATOR OP_PUSHINPUTREF <ref> in a Glyph FT output:
+ * OP_REFOUTPUTCOUNT_OUTPUTS OP_INPUTINDEX OP_CODESCRIPTBYTECODE_UTXO OP_HASH256 OP_DUP
+ * OP_CODESCRIPTHASHVALUESUM_UTXOS OP_OVER OP_CODESCRIPTHASHVALUESUM_OUTPUTS
+ * OP_GREATERTHANOREQUAL OP_VERIFY OP_CODESCRIPTHASHOUTPUTCOUNT_OUTPUTS OP_NUMEQUALVERIFY
+ */
+export const GLYPH_FT_CONSERVATION_SCRIPT = hexToBytes('dec0e9aa76e378e4a269e69d');
+
+/**
+ * Script template types
+ */
+export const ScriptType = {
+  P2PKH: 'p2pkh',
+  P2SH: 'p2sh',
+  P2PK: 'p2pk',
+  MULTISIG: 'multisig',
+  NULLDATA: 'nulldata',
+  GLYPH_FT: 'glyph-ft',
+  GLYPH_NFT: 'glyph-nft',
+  NONSTANDARD: 'nonstandard',
+} as const;
+
+export type ScriptTypeName = (typeof ScriptType)[keyof typeof ScriptType];
+
+export type ClassifiedScript =
+  | { type: 'p2pkh'; pubKeyHash: Uint8Array }
+  | { type: 'p2sh'; scriptHash: Uint8Array }
+  | { type: 'p2pk'; pubKey: Uint8Array }
+  | { type: 'multisig'; required: number; pubKeys: Uint8Array[] }
+  | { type: 'nulldata'; data: Uint8Array[] }
+  | { type: 'glyph-ft'; ref: Uint8Array; pubKeyHash: Uint8Array }
+  | { type: 'glyph-nft'; ref: Uint8Array; pubKeyHash: Uint8Array }
+  | { type: 'nonstandard'; refs: Uint8Array[] };
+
+function isP2PKH(script: Uint8Array, offset = 0): boolean {
+  return script.length - offset >= ScriptConstants.P2PKH_SCRIPT_SIZE &&
+    script[offset] === Opcodes.OP_DUP &&
+    script[offset + 1] === Opcodes.OP_HASH160 &&
+    script[offset + 2] === Limits.HASH160_SIZE &&
+    script[offset + 23] === Opcodes.OP_EQUALVERIFY &&
+    script[offset + 24] === Opcodes.OP_CHECKSIG;
+}
+
+function isPubKey(data: Uint8Array | undefined): data is Uint8Array {
+  return data !== undefined &&
+    (data.length === Limits.COMPRESSED_PUBKEY_SIZE || data.length === Limits.UNCOMPRESSED_PUBKEY_SIZE);
+}
+
+function smallInt(opcode: number): number | undefined {
+  return opcode >= Opcodes.OP_1 && opcode <= Opcodes.OP_16 ? opcode - Opcodes.OP_1 + 1 : undefined;
+}
+
+function classifyMultisig(chunks: ScriptChunk[]): ClassifiedScript | undefined {
+  if (chunks.length < 4 || chunks[chunks.length - 1].opcode !== Opcodes.OP_CHECKMULTISIG) return undefined;
+  const required = smallInt(chunks[0].opcode);
+  const total = smallInt(chunks[chunks.length - 2].opcode);
+  const keyChunks = chunks.slice(1, -2);
+  if (required === undefined || total === undefined || required > total || keyChunks.length !== total) {
+    return undefined;
+  }
+  if (total > Limits.MAX_PUBKEYS_PER_MULTISIG || !keyChunks.every(chunk => isPubKey(chunk.data))) {
+    return undefined;
+  }
+  return { type: 'multisig', required, pubKeys: keyChunks.map(chunk => chunk.data as Uint8Array) };
+}
+
+function classifyNullData(script: Uint8Array, chunks: ScriptChunk[]): ClassifiedScript | undefined {
+  const prefixLength = script[0] === Opcodes.OP_RETURN ? 1
+    : bytesEqual(script.slice(0, 2), ScriptConstants.OP_RETURN_PREFIX) ? 2
+    : 0;
+  if (prefixLength === 0) return undefined;
+
+  const payload = chunks.slice(prefixLength);
+  if (!payload.every(chunk => isPushOpcode(chunk.opcode) && !chunk.truncated)) return undefined;
+  return { type: 'nulldata', data: payload.map(chunk => chunk.data ?? new Uint8Array(0)) };
+}
+
+/**
+ * Classify an output script and extract its fields.
+ *
+ * Glyph templates:
+ * - NFT: `OP_PUSHINPUTREFSINGLETON <ref> OP_DROP <p2pkh>`
+ * - FT:  `<p2pkh> OP_STATESEPARATOR OP_PUSHINPUTREF <ref> <conservation script>`
+ *
+ * Anything else is `nonstandard`, with the refs pushed by
+ * OP_PUSHINPUTREF / OP_PUSHINPUTREFSINGLETON listed in script order.
+ */
+export function classifyScript(script: Uint8Array): ClassifiedScript {
+  if (script.length === ScriptConstants.P2PKH_SCRIPT_SIZE && isP2PKH(script)) {
+    return { type: 'p2pkh', pubKeyHash: script.slice(3, 23) };
+  }
+
+  if (
+    script.length === ScriptConstants.P2SH_SCRIPT_SIZE &&
+    script[0] === Opcodes.OP_HASH160 &&
+    script[1] === Limits.HASH160_SIZE &&
+    script[22] === Opcodes.OP_EQUAL
+  ) {
+    return { type: 'p2sh', scriptHash: script.slice(2, 22) };
+  }
+
+  // OP_PUSHINPUTREFSINGLETON <ref> OP_DROP <p2pkh>
+  const nftPrefix = 1 + Limits.REF_SIZE + 1;
+  if (
+    script.length === nftPrefix + ScriptConstants.P2PKH_SCRIPT_SIZE &&
+    script[0] === Opcodes.OP_PUSHINPUTREFSINGLETON &&
+    script[nftPrefix - 1] === Opcodes.OP_DROP &&
+    isP2PKH(script, nftPrefix)
+  ) {
+    return {
+      type: 'glyph-nft',
+      ref: script.slice(1, 1 + Limits.REF_SIZE),
+      pubKeyHash: script.slice(nftPrefix + 3, nftPrefix + 23),
+    };
+  }
+
+  // <p2pkh> OP_STATESEPARATOR OP_PUSHINPUTREF <ref> <conservation script>
+  const ftRefOffset = ScriptConstants.P2PKH_SCRIPT_SIZE + 2;
+  const ftCodeOffset = ftRefOffset + Limits.REF_SIZE;
+  if (
+    script.length === ftCodeOffset + GLYPH_FT_CONSERVATION_SCRIPT.length &&
+    isP2PKH(script) &&
+    script[ftRefOffset - 2] === Opcodes.OP_STATESEPARATOR &&
+    script[ftRefOffset - 1] === Opcodes.OP_PUSHINPUTREF &&
+    bytesEqual(script.slice(ftCodeOffset), GLYPH_FT_CONSERVATION_SCRIPT)
+  ) {
+    return {
+      type: 'glyph-ft',
+      ref: script.slice(ftRefOffset, ftCodeOffset),
+      pubKeyHash: script.slice(3, 23),
+    };
+  }
+
+  const chunks = parseScript(script);
+
+  const nullData = classifyNullData(script, chunks);
+  if (nullData) return nullData;
+
+  if (chunks.length === 2 && isPubKey(chunks[0].data) && !chunks[0].truncated && chunks[1].opcode === Opcodes.OP_CHECKSIG) {
+    return { type: 'p2pk', pubKey: chunks[0].data };
+  }
+
+  const multisig = classifyMultisig(chunks);
+  if (multisig) return multisig;
+
+  return {
+    type: 'nonstandard',
+    refs: chunks
+      .filter(chunk =>
+        !chunk.truncated &&
+        (chunk.opcode === Opcodes.OP_PUSHINPUTREF || chunk.opcode === Opcodes.OP_PUSHINPUTREFSINGLETON))
+      .map(chunk => chunk.data as Uint8Array),
+  };
+}
+
+export default {
+  GLYPH_FT_CONSERVATION_SCRIPT,
+  ScriptType,
+  classifyScript,
+};
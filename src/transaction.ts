@@ -0,0 +1,335 @@
+/**
+ * @radiantblockchain/constants - Transactions
+ *
+ * Serialization of Radiant transactions: version, inputs (outpoint,
+ * scriptSig, sequence), outputs (value, script) and lock time, with
+ * Bitcoin-style CompactSize varints. The txid is the double SHA-256 of the
+ * serialized transaction, displayed byte-reversed like ref txids.
+ *
+ * Reference: Radiant-Core src/primitives/transaction.h, src/serialize.h
+ */
+
+import { Limits } from './limits';
+import { bytesToHex } from './encoding';
+import { hash256 } from './crypto';
+import { refFromBytes, refToBytes } from './refs';
+import type { Ref } from './refs';
+
+/**
+ * Transaction input
+ */
+export interface TxInput {
+  /** Outpoint being spent */
+  prevout: Ref;
+  /** Unlocking script (scriptSig) */
+  script: Uint8Array;
+  sequence: number;
+}
+
+/**
+ * Transaction output
+ */
+export interface TxOutput {
+  /** Value in photons */
+  value: bigint;
+  /** Locking script */
+  script: Uint8Array;
+}
+
+/**
+ * A Radiant transaction
+ */
+export interface Transaction {
+  version: number;
+  inputs: TxInput[];
+  outputs: TxOutput[];
+  lockTime: number;
+}
+
+/**
+ * Sequence number that disables lock time and relative lock time for an input
+ */
+export const SEQUENCE_FINAL = 0xffffffff;
+
+/**
+ * Largest varint the node accepts when reading a length (`MAX_SIZE`)
+ */
+export const MAX_VARINT_SIZE = 0x02000000;
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+/**
+ * Number of bytes used to encode a varint
+ */
+export function getVarIntSize(value: number): number {
+  if (value < 0xfd) return 1;
+  if (value <= 0xffff) return 3;
+  if (value <= 0xffffffff) return 5;
+  return 9;
+}
+
+/**
+ * Encode a varint (CompactSize)
+ * @throws Error if the value is not a non-negative safe integer
+ */
+export function encodeVarInt(value: number): Uint8Array {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`Invalid varint value: ${value}`);
+  }
+  const out: number[] = [];
+  writeVarInt(out, value);
+  return new Uint8Array(out);
+}
+
+/**
+ * Decode a varint (CompactSize) at `offset`. Non-minimal encodings are
+ * rejected, as the node does.
+ * @returns the value and the number of bytes read
+ * @throws Error if the varint is truncated, non-minimal or not a safe integer
+ */
+export function decodeVarInt(bytes: Uint8Array, offset = 0): { value: number; size: number } {
+  const reader = new ByteReader(bytes, offset);
+  const value = reader.readVarInt();
+  return { value, size: reader.offset - offset };
+}
+
+function writeUint32LE(out: number[], value: number): void {
+  out.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+function writeUint64LE(out: number[], value: bigint): void {
+  for (let i = 0n; i < 8n; i++) {
+    out.push(Number((value >> (8n * i)) & 0xffn));
+  }
+}
+
+function writeVarInt(out: number[], value: number): void {
+  if (value < 0xfd) {
+    out.push(value);
+  } else if (value <= 0xffff) {
+    out.push(0xfd, value & 0xff, value >>> 8);
+  } else if (value <= 0xffffffff) {
+    out.push(0xfe);
+    writeUint32LE(out, value);
+  } else {
+    out.push(0xff);
+    writeUint64LE(out, BigInt(value));
+  }
+}
+
+function writeBytes(out: number[], bytes: Uint8Array): void {
+  for (const byte of bytes) out.push(byte);
+}
+
+function assertUint32(value: number, field: string): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error(`Invalid transaction ${field}: ${value}`);
+  }
+}
+
+/**
+ * Sequential little-endian reader over a byte array
+ */
+class ByteReader {
+  constructor(private readonly bytes: Uint8Array, public offset = 0) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  read(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new Error(`Unexpected end of data: need ${length} bytes at offset ${this.offset}, have ${this.remaining}`);
+    }
+    const bytes = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  readUint32(): number {
+    const b = this.read(4);
+    return (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0;
+  }
+
+  readUint64(): bigint {
+    const b = this.read(8);
+    let value = 0n;
+    for (let i = 7; i >= 0; i--) value = (value << 8n) | BigInt(b[i]);
+    return value;
+  }
+
+  readVarInt(): number {
+    const start = this.offset;
+    const prefix = this.read(1)[0];
+    let value: number;
+    let min: number;
+    if (prefix < 0xfd) {
+      return prefix;
+    } else if (prefix === 0xfd) {
+      const b = this.read(2);
+      value = b[0] | (b[1] << 8);
+      min = 0xfd;
+    } else if (prefix === 0xfe) {
+      value = this.readUint32();
+      min = 0x10000;
+    } else {
+      const wide = this.readUint64();
+      if (wide > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error(`Varint at offset ${start} exceeds the safe integer range`);
+      }
+      value = Number(wide);
+      min = 0x100000000;
+    }
+    if (value < min) {
+      throw new Error(`Non-canonical varint at offset ${start}`);
+    }
+    return value;
+  }
+
+  readLength(field: string): number {
+    const start = this.offset;
+    const length = this.readVarInt();
+    if (length > MAX_VARINT_SIZE) {
+      throw new Error(`${field} length ${length} at offset ${start} exceeds ${MAX_VARINT_SIZE}`);
+    }
+    return length;
+  }
+}
+
+/**
+ * Serialize a transaction
+ * @throws Error if a field is out of range
+ */
+export function serializeTransaction(tx: Transaction): Uint8Array {
+  assertUint32(tx.version, 'version');
+  assertUint32(tx.lockTime, 'lockTime');
+  const out: number[] = [];
+  writeUint32LE(out, tx.version);
+  writeVarInt(out, tx.inputs.length);
+  for (const input of tx.inputs) {
+    assertUint32(input.sequence, 'input sequence');
+    writeBytes(out, refToBytes(input.prevout));
+    writeVarInt(out, input.script.length);
+    writeBytes(out, input.script);
+    writeUint32LE(out, input.sequence);
+  }
+  writeVarInt(out, tx.outputs.length);
+  for (const output of tx.outputs) {
+    if (output.value < 0n || output.value > MAX_UINT64) {
+      throw new Error(`Invalid transaction output value: ${output.value}`);
+    }
+    writeUint64LE(out, output.value);
+    writeVarInt(out, output.script.length);
+    writeBytes(out, output.script);
+  }
+  writeUint32LE(out, tx.lockTime);
+  return new Uint8Array(out);
+}
+
+/**
+ * Parse a serialized transaction
+ * @throws Error if the data is truncated, malformed or has trailing bytes
+ */
+export function parseTransaction(bytes: Uint8Array): Transaction {
+  const reader = new ByteReader(bytes);
+  const version = reader.readUint32();
+
+  const inputs: TxInput[] = [];
+  const inputCount = reader.readLength('Input count');
+  for (let i = 0; i < inputCount; i++) {
+    const prevout = refFromBytes(reader.read(Limits.REF_SIZE));
+    const script = reader.read(reader.readLength('scriptSig'));
+    const sequence = reader.readUint32();
+    inputs.push({ prevout, script, sequence });
+  }
+
+  const outputs: TxOutput[] = [];
+  const outputCount = reader.readLength('Output count');
+  for (let i = 0; i < outputCount; i++) {
+    const value = reader.readUint64();
+    const script = reader.read(reader.readLength('Output script'));
+    outputs.push({ value, script });
+  }
+
+  const lockTime = reader.readUint32();
+  if (reader.remaining !== 0) {
+    throw new Error(`Unexpected ${reader.remaining} trailing bytes after transaction`);
+  }
+  return { version, inputs, outputs, lockTime };
+}
+
+/**
+ * Transaction id: double SHA-256 of the serialized transaction, in display
+ * (byte-reversed) hex
+ */
+export function getTxid(tx: Transaction | Uint8Array): string {
+  const bytes = tx instanceof Uint8Array ? tx : serializeTransaction(tx);
+  return bytesToHex(hash256(bytes).reverse());
+}
+
+/**
+ * Serialized size of a transaction in bytes
+ */
+export function getTransactionSize(tx: Transaction): number {
+  let size = 8 + getVarIntSize(tx.inputs.length) + getVarIntSize(tx.outputs.length);
+  for (const input of tx.inputs) {
+    size += Limits.REF_SIZE + getVarIntSize(input.script.length) + input.script.length + 4;
+  }
+  for (const output of tx.outputs) {
+    size += 8 + getVarIntSize(output.script.length) + output.script.length;
+  }
+  return size;
+}
+
+/**
+ * Context-free transaction checks: at least one input and output, size
+ * within [MIN_TX_SIZE, MAX_TX_SIZE], output values within [0, MAX_MONEY]
+ * and no outpoint spent twice
+ */
+export function validateTransaction(tx: Transaction): { valid: boolean; error?: string } {
+  if (tx.inputs.length === 0) {
+    return { valid: false, error: 'Transaction has no inputs' };
+  }
+  if (tx.outputs.length === 0) {
+    return { valid: false, error: 'Transaction has no outputs' };
+  }
+  const size = getTransactionSize(tx);
+  if (size < Limits.MIN_TX_SIZE) {
+    return { valid: false, error: `Transaction size ${size} is below MIN_TX_SIZE ${Limits.MIN_TX_SIZE}` };
+  }
+  if (size > Limits.MAX_TX_SIZE) {
+    return { valid: false, error: `Transaction size ${size} exceeds MAX_TX_SIZE ${Limits.MAX_TX_SIZE}` };
+  }
+  let total = 0n;
+  for (const [index, output] of tx.outputs.entries()) {
+    if (output.value < 0n || output.value > Limits.MAX_MONEY) {
+      return { valid: false, error: `Output ${index} value ${output.value} is outside [0, MAX_MONEY]` };
+    }
+    total += output.value;
+    if (total > Limits.MAX_MONEY) {
+      return { valid: false, error: `Total output value ${total} exceeds MAX_MONEY` };
+    }
+  }
+  const spent = new Set<string>();
+  for (const input of tx.inputs) {
+    const outpoint = `${input.prevout.txid.toLowerCase()}:${input.prevout.vout}`;
+    if (spent.has(outpoint)) {
+      return { valid: false, error: `Duplicate input ${outpoint}` };
+    }
+    spent.add(outpoint);
+  }
+  return { valid: true };
+}
+
+export default {
+  SEQUENCE_FINAL,
+  MAX_VARINT_SIZE,
+  getVarIntSize,
+  encodeVarInt,
+  decodeVarInt,
+  serializeTransaction,
+  parseTransaction,
+  getTxid,
+  getTransactionSize,
+  validateTransaction,
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AddressType, encodeAddress, decodeAddress, validateAddress } from '../src/address';
+import { mainnet, testnet, regtest } from '../src/networks';
+import { base58Encode, base58Decode, base58CheckEncode, base58CheckDecode, hexToBytes } from '../src/encoding';
+
+const ZERO_HASH = new Uint8Array(20);
+
+describe('Addresses', () => {
+  describe('Base58', () => {
+    it('should keep leading zero bytes as "1"', () => {
+      expect(base58Encode(hexToBytes('0000287fb4cd'))).toBe('11233QC4');
+      expect(base58Decode('11233QC4')).toEqual(hexToBytes('0000287fb4cd'));
+      expect(base58Encode(new Uint8Array(0))).toBe('');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base58Decode('1O')).toThrow('Invalid Base58 character "O" at position 1');
+    });
+
+    it('should verify the Base58Check checksum', () => {
+      const encoded = base58CheckEncode(hexToBytes('00'));
+      expect(base58CheckDecode(encoded)).toEqual(hexToBytes('00'));
+      expect(() => base58CheckDecode(encoded.slice(0, -1) + '2')).toThrow('checksum');
+    });
+  });
+
+  describe('encodeAddress', () => {
+    it('should use the network version bytes', () => {
+      expect(encodeAddress(ZERO_HASH)).toBe('1111111111111111111114oLvT2');
+      expect(encodeAddress(ZERO_HASH, AddressType.P2SH)).toBe('31h1vYVSYuKP6AhS86fbRdMw9XHieotbST');
+      expect(encodeAddress(ZERO_HASH, AddressType.P2PKH, testnet)).toBe('mfWxJ45yp2SFn7UciZyNpvDKrzbhyfKrY8');
+    });
+
+    it('should reject hashes that are not 20 bytes', () => {
+      expect(() => encodeAddress(new Uint8Array(32))).toThrow('20 bytes');
+    });
+  });
+
+  describe('decodeAddress', () => {
+    it('should decode mainnet addresses', () => {
+      const decoded = decodeAddress('31h1vYVSYuKP6AhS86fbRdMw9XHieotbST');
+      expect(decoded.hash).toEqual(ZERO_HASH);
+      expect(decoded.type).toBe(AddressType.P2SH);
+      expect(decoded.network).toBe(mainnet);
+      expect(decoded.ambiguous).toBe(false);
+    });
+
+    it('should report the testnet/regtest ambiguity', () => {
+      const decoded = decodeAddress('mfWxJ45yp2SFn7UciZyNpvDKrzbhyfKrY8');
+      expect(decoded.ambiguous).toBe(true);
+      expect(decoded.network).toBeUndefined();
+      expect(decoded.networks).toEqual([testnet, regtest]);
+    });
+
+    it('should resolve the network when one is given', () => {
+      expect(decodeAddress('mfWxJ45yp2SFn7UciZyNpvDKrzbhyfKrY8', regtest).network).toBe(regtest);
+      expect(() => decodeAddress('1111111111111111111114oLvT2', testnet)).toThrow('does not belong to testnet');
+    });
+
+    it('should explain invalid addresses', () => {
+      expect(() => decodeAddress(base58CheckEncode(new Uint8Array(20)))).toThrow('expected 21 bytes, got 20');
+      expect(() => decodeAddress(base58CheckEncode(new Uint8Array(21).fill(0x30)))).toThrow('Unknown address version: 0x30');
+      expect(validateAddress('1111111111111111111114oLvT3')).toEqual({ valid: false, error: 'Invalid Base58Check checksum' });
+      expect(validateAddress('1111111111111111111114oLvT2')).toEqual({ valid: true });
+    });
+  });
+});
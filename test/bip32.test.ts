@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeExtendedKey,
+  decodeExtendedKey,
+  HARDENED_OFFSET,
+  createMasterKey,
+  deriveChild,
+  derivePath,
+  parseDerivationPath,
+  toPublicExtendedKey,
+  getFingerprint,
+  getExtendedKeyAddress,
+} from '../src/bip32';
+import { mainnet, testnet, regtest, SLIP44_COIN_TYPE, DEFAULT_DERIVATION_PATH } from '../src/networks';
+import { base58CheckDecode, base58CheckEncode, bytesToHex, hexToBytes } from '../src/encoding';
+
+// BIP32 test vector 1
+const CHAIN_CODE = '873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508';
+const PRIVATE_KEY = 'e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35';
+const PUBLIC_KEY = '0339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c2';
+const XPRV = 'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi';
+const XPUB = 'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+const XPUB_0H = 'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw';
+const XPRV_0H = 'xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7';
+const XPUB_0H_1 = 'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ';
+const SEED = hexToBytes('000102030405060708090a0b0c0d0e0f');
+
+const master = {
+  depth: 0,
+  parentFingerprint: 0,
+  childIndex: 0,
+  chainCode: hexToBytes(CHAIN_CODE),
+};
+
+describe('BIP32 Extended Keys', () => {
+  describe('encodeExtendedKey', () => {
+    it('should serialize the BIP32 test vector', () => {
+      expect(encodeExtendedKey({ ...master, isPrivate: true, key: hexToBytes(PRIVATE_KEY) })).toBe(XPRV);
+      expect(encodeExtendedKey({ ...master, isPrivate: false, key: hexToBytes(PUBLIC_KEY) })).toBe(XPUB);
+    });
+
+    it('should use the network version bytes', () => {
+      const tpub = encodeExtendedKey({ ...master, isPrivate: false, key: hexToBytes(PUBLIC_KEY) }, testnet);
+      expect(tpub.startsWith('tpub')).toBe(true);
+    });
+
+    it('should reject keys that do not match isPrivate', () => {
+      expect(() => encodeExtendedKey({ ...master, isPrivate: true, key: hexToBytes(PUBLIC_KEY) })).toThrow('private key');
+      expect(() => encodeExtendedKey({ ...master, isPrivate: false, key: hexToBytes(PRIVATE_KEY) })).toThrow('public key');
+    });
+
+    it('should reject master keys with a parent', () => {
+      expect(() => encodeExtendedKey({ ...master, childIndex: 1, isPrivate: false, key: hexToBytes(PUBLIC_KEY) }))
+        .toThrow('Master extended key');
+    });
+  });
+
+  describe('decodeExtendedKey', () => {
+    it('should parse xprv and xpub strings', () => {
+      const xprv = decodeExtendedKey(XPRV);
+      expect(xprv.isPrivate).toBe(true);
+      expect(bytesToHex(xprv.key)).toBe(PRIVATE_KEY);
+      expect(bytesToHex(xprv.chainCode)).toBe(CHAIN_CODE);
+      expect(xprv.network).toBe(mainnet);
+
+      const child = decodeExtendedKey(XPUB_0H);
+      expect(child).toMatchObject({ isPrivate: false, depth: 1, parentFingerprint: 0x3442193e, childIndex: HARDENED_OFFSET });
+    });
+
+    it('should report the testnet/regtest ambiguity', () => {
+      const tprv = encodeExtendedKey({ ...master, isPrivate: true, key: hexToBytes(PRIVATE_KEY) }, regtest);
+      const decoded = decodeExtendedKey(tprv);
+      expect(decoded.ambiguous).toBe(true);
+      expect(decoded.networks).toEqual([testnet, regtest]);
+      expect(decodeExtendedKey(tprv, regtest).network).toBe(regtest);
+      expect(() => decodeExtendedKey(XPUB, testnet)).toThrow('does not belong to testnet');
+    });
+
+    it('should reject mismatched public/private versions', () => {
+      const bytes = base58CheckDecode(XPRV);
+      bytes.set(base58CheckDecode(XPUB).slice(0, 4));
+      expect(() => decodeExtendedKey(base58CheckEncode(bytes))).toThrow('Public extended key version with private key data');
+
+      const pub = base58CheckDecode(XPUB);
+      pub.set(base58CheckDecode(XPRV).slice(0, 4));
+      expect(() => decodeExtendedKey(base58CheckEncode(pub))).toThrow('Private extended key version with public key data');
+    });
+
+    it('should reject wrong lengths and unknown versions', () => {
+      expect(() => decodeExtendedKey(base58CheckEncode(new Uint8Array(77)))).toThrow('expected 78 bytes');
+      expect(() => decodeExtendedKey(base58CheckEncode(new Uint8Array(78)))).toThrow('Unknown extended key version');
+    });
+  });
+
+  describe('BIP32 test vector 5', () => {
+    const invalidKeys: [string, string][] = [
+      ['xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6LBpB85b3D2yc8sfvZU521AAwdZafEz7mnzBBsz4wKY5fTtTQBm', 'Public extended key version with private key data'],
+      ['xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFGTQQD3dC4H2D5GBj7vWvSQaaBv5cxi9gafk7NF3pnBju6dwKvH', 'Private extended key version with public key data'],
+      ['xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6Txnt3siSujt9RCVYsx4qHZGc62TG4McvMGcAUjeuwZdduYEvFn', '33-byte compressed public key'],
+      ['xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFGpWnsj83BHtEy5Zt8CcDr1UiRXuWCmTQLxEK9vbz5gPstX92JQ', 'Private extended key version with public key data'],
+      ['xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6N8ZMMXctdiCjxTNq964yKkwrkBJJwpzZS4HS2fxvyYUA4q2Xe4', '33-byte compressed public key'],
+      ['xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFAzHGBP2UuGCqWLTAPLcMtD9y5gkZ6Eq3Rjuahrv17fEQ3Qen6J', 'Private extended key version with public key data'],
+      ['xprv9s2SPatNQ9Vc6GTbVMFPFo7jsaZySyzk7L8n2uqKXJen3KUmvQNTuLh3fhZMBoG3G4ZW1N2kZuHEPY53qmbZzCHshoQnNf4GvELZfqTUrcv', 'Master extended key must have a zero parent fingerprint'],
+      ['xpub661no6RGEX3uJkY4bNnPcw4URcQTrSibUZ4NqJEw5eBkv7ovTwgiT91XX27VbEXGENhYRCf7hyEbWrR3FewATdCEebj6znwMfQkhRYHRLpJ', 'Master extended key must have a zero parent fingerprint'],
+      ['xprv9s21ZrQH4r4TsiLvyLXqM9P7k1K3EYhA1kkD6xuquB5i39AU8KF42acDyL3qsDbU9NmZn6MsGSUYZEsuoePmjzsB3eFKSUEh3Gu1N3cqVUN', 'Master extended key must have a zero parent fingerprint'],
+      ['xpub661MyMwAuDcm6CRQ5N4qiHKrJ39Xe1R1NyfouMKTTWcguwVcfrZJaNvhpebzGerh7gucBvzEQWRugZDuDXjNDRmXzSZe4c7mnTK97pTvGS8', 'Master extended key must have a zero parent fingerprint'],
+      ['DMwo58pR1QLEFihHiXPVykYB6fJmsTeHvyTp7hRThAtCX8CvYzgPcn8XnmdfHGMQzT7ayAmfo4z3gY5KfbrZWZ6St24UVf2Qgo6oujFktLHdHY4', 'Unknown extended key version'],
+      ['DMwo58pR1QLEFihHiXPVykYB6fJmsTeHvyTp7hRThAtCX8CvYzgPcn8XnmdfHPmHJiEDXkTiJTVV9rHEBUem2mwVbbNfvT2MTcAqj3nesx8uBf9', 'Unknown extended key version'],
+      ['xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzF93Y5wvzdUayhgkkFoicQZcP3y52uPPxFnfoLZB21Teqt1VvEHx', 'range [1, n-1]'],
+      ['xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFAzHGBP2UuGCqWLTAPLcMtD5SDKr24z3aiUvKr9bJpdrcLg1y3G', 'range [1, n-1]'],
+      ['xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6Q5JXayek4PRsn35jii4veMimro1xefsM58PgBMrvdYre8QyULY', 'not on the secp256k1 curve'],
+      ['xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHL', 'Invalid Base58Check checksum'],
+    ];
+
+    it.each(invalidKeys)('should reject %s', (key, message) => {
+      expect(() => decodeExtendedKey(key)).toThrow(message);
+    });
+  });
+
+  describe('derivation', () => {
+    it('should derive the BIP32 test vector', () => {
+      const root = createMasterKey(SEED);
+      expect(encodeExtendedKey(root)).toBe(XPRV);
+      expect(encodeExtendedKey(toPublicExtendedKey(root))).toBe(XPUB);
+      expect(getFingerprint(root)).toBe(0x3442193e);
+      expect(encodeExtendedKey(deriveChild(root, HARDENED_OFFSET))).toBe(XPRV_0H);
+      expect(encodeExtendedKey(toPublicExtendedKey(derivePath(root, "m/0'/1")))).toBe(XPUB_0H_1);
+    });
+
+    it('should derive public children from an xpub', () => {
+      expect(encodeExtendedKey(deriveChild(decodeExtendedKey(XPUB_0H), 1))).toBe(XPUB_0H_1);
+      expect(() => deriveChild(decodeExtendedKey(XPUB_0H), HARDENED_OFFSET)).toThrow('hardened');
+    });
+
+    it('should parse paths with any hardened marker', () => {
+      expect(parseDerivationPath("m/44'/512h/0H/1")).toEqual({
+        absolute: true,
+        indexes: [HARDENED_OFFSET + 44, HARDENED_OFFSET + 512, HARDENED_OFFSET, 1],
+      });
+      expect(parseDerivationPath('0/5')).toEqual({ absolute: false, indexes: [0, 5] });
+      expect(() => parseDerivationPath('m/x')).toThrow('Invalid derivation path step: "x"');
+      expect(() => parseDerivationPath('m/2147483648')).toThrow('Invalid derivation path step');
+    });
+
+    it('should reject empty path steps', () => {
+      expect(parseDerivationPath('m')).toEqual({ absolute: true, indexes: [] });
+      expect(parseDerivationPath('')).toEqual({ absolute: false, indexes: [] });
+      for (const path of ['m//0', 'm/0/', 'm/', '/0', '0//1', '0/']) {
+        expect(() => parseDerivationPath(path)).toThrow('Invalid derivation path step: ""');
+      }
+    });
+
+    it('should reject absolute paths on non-master keys', () => {
+      expect(() => derivePath(decodeExtendedKey(XPUB_0H), 'm/1')).toThrow('requires a master key');
+    });
+
+    it('should derive the same address from the account xpub', () => {
+      const root = createMasterKey(SEED);
+      expect(DEFAULT_DERIVATION_PATH).toBe(`m/44'/${SLIP44_COIN_TYPE}'/0'/0/0`);
+      const account = toPublicExtendedKey(derivePath(root, "m/44'/512'/0'"));
+      const fromPrivate = getExtendedKeyAddress(derivePath(root, DEFAULT_DERIVATION_PATH), testnet);
+      expect(getExtendedKeyAddress(derivePath(account, '0/0'), testnet)).toBe(fromPrivate);
+      expect(fromPrivate[0]).toMatch(/[mn]/);
+    });
+
+    it('should reject seeds outside 16-64 bytes', () => {
+      expect(() => createMasterKey(new Uint8Array(15))).toThrow('16-64 bytes');
+    });
+  });
+});
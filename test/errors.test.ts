@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptError, ScriptErrorStrings, getScriptErrorString, isScriptErrorCode } from '../src/errors';
+import { Limits, checkElementSize, checkScriptSize, checkStackSize, checkOpCount } from '../src/limits';
+
+describe('Script Errors', () => {
+  it('should have a message for every error code', () => {
+    for (const code of Object.values(ScriptError)) {
+      expect(ScriptErrorStrings[code]).toBeTruthy();
+    }
+  });
+
+  it('should return the node messages', () => {
+    expect(getScriptErrorString(ScriptError.OK)).toBe('No error');
+    expect(getScriptErrorString(ScriptError.EVAL_FALSE))
+      .toBe('Script evaluated without error but finished with a false/empty top stack element');
+    expect(getScriptErrorString(ScriptError.SIG_NULLFAIL))
+      .toBe('Signature must be zero for failed CHECK(MULTI)SIG operation');
+    expect(getScriptErrorString('NOT_AN_ERROR')).toBe('unknown error');
+  });
+
+  it('should recognise error codes', () => {
+    expect(isScriptErrorCode('CLEANSTACK')).toBe(true);
+    expect(isScriptErrorCode('cleanstack')).toBe(false);
+  });
+
+  it('should not treat prototype keys as error codes', () => {
+    for (const key of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+      expect(isScriptErrorCode(key)).toBe(false);
+      expect(getScriptErrorString(key)).toBe('unknown error');
+    }
+  });
+
+  describe('limit checks', () => {
+    it('should return OK within limits', () => {
+      expect(checkElementSize(Limits.MAX_SCRIPT_ELEMENT_SIZE)).toBe(ScriptError.OK);
+      expect(checkScriptSize(Limits.MAX_SCRIPT_SIZE)).toBe(ScriptError.OK);
+      expect(checkStackSize(Limits.MAX_STACK_SIZE)).toBe(ScriptError.OK);
+      expect(checkOpCount(Limits.MAX_OPS_PER_SCRIPT)).toBe(ScriptError.OK);
+    });
+
+    it('should return the matching error code past limits', () => {
+      expect(checkElementSize(Limits.MAX_SCRIPT_ELEMENT_SIZE + 1)).toBe(ScriptError.PUSH_SIZE);
+      expect(checkScriptSize(Limits.MAX_SCRIPT_SIZE + 1)).toBe(ScriptError.SCRIPT_SIZE);
+      expect(checkStackSize(Limits.MAX_STACK_SIZE + 1)).toBe(ScriptError.STACK_SIZE);
+      expect(checkOpCount(Limits.MAX_OPS_PER_SCRIPT + 1)).toBe(ScriptError.OP_COUNT);
+    });
+  });
+});
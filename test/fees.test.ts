@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInputSize,
+  getOutputSize,
+  estimateTxSize,
+  computeFee,
+  getDustThreshold,
+  isDust,
+} from '../src/fees';
+import { Limits } from '../src/limits';
+import { hexToBytes } from '../src/encoding';
+
+const P2PKH = hexToBytes('76a914' + '00'.repeat(20) + '88ac');
+
+describe('Fees', () => {
+  describe('getInputSize / getOutputSize', () => {
+    it('should size P2PKH and Glyph inputs with a maximal signature', () => {
+      // 36 outpoint + 1 length + 108 scriptSig + 4 sequence
+      expect(getInputSize('p2pkh')).toBe(149);
+      expect(getInputSize('glyph-ft')).toBe(149);
+      expect(getInputSize('glyph-nft')).toBe(149);
+    });
+
+    it('should size P2SH inputs from the redeem script', () => {
+      // 2-of-3 multisig: OP_0 + 2 sigs, 105-byte redeem script pushed with PUSHDATA1
+      const input = { type: 'p2sh' as const, redeemScriptSize: 105, unlockingSize: 1 + 2 * 74 };
+      expect(getInputSize(input)).toBe(40 + 3 + 149 + 107);
+      expect(getInputSize({ scriptSigSize: 300 })).toBe(40 + 3 + 300);
+    });
+
+    it('should size standard and Glyph outputs', () => {
+      expect(getOutputSize('p2pkh')).toBe(34);
+      expect(getOutputSize('p2sh')).toBe(32);
+      expect(getOutputSize('glyph-nft')).toBe(8 + 1 + 63);
+      expect(getOutputSize('glyph-ft')).toBe(8 + 1 + 75);
+      expect(getOutputSize({ script: P2PKH })).toBe(34);
+      expect(getOutputSize({ scriptSize: 253 })).toBe(8 + 3 + 253);
+    });
+
+    it('should reject unknown shapes and invalid sizes', () => {
+      expect(() => getInputSize('p2sh' as never)).toThrow('Unknown input type: "p2sh"');
+      expect(() => getOutputSize({ scriptSize: -1 })).toThrow('Invalid scriptSize: -1');
+    });
+  });
+
+  describe('estimateTxSize', () => {
+    it('should sum inputs, outputs and the transaction header', () => {
+      expect(estimateTxSize({ inputs: ['p2pkh'], outputs: ['p2pkh', 'p2pkh'] })).toBe(10 + 149 + 68);
+    });
+
+    it('should respect MIN_TX_SIZE and MAX_TX_SIZE', () => {
+      expect(estimateTxSize({ inputs: [], outputs: ['p2sh'] })).toBe(Limits.MIN_TX_SIZE);
+      expect(() => estimateTxSize({ inputs: [], outputs: [{ scriptSize: Limits.MAX_TX_SIZE }] }))
+        .toThrow('exceeds MAX_TX_SIZE');
+    });
+  });
+
+  describe('computeFee', () => {
+    it('should follow the node fee rounding', () => {
+      expect(computeFee(250, 1000n)).toBe(250n);
+      expect(computeFee(250, 10_000n)).toBe(2500n);
+      expect(computeFee(1, 1n)).toBe(1n);
+      expect(computeFee(1999, 1n)).toBe(1n);
+      expect(computeFee(0, 1000n)).toBe(0n);
+      expect(() => computeFee(100, -1n)).toThrow('Invalid fee rate');
+    });
+  });
+
+  describe('getDustThreshold', () => {
+    it('should match DUST_THRESHOLD for P2PKH at 1000 photons/kB', () => {
+      expect(getDustThreshold(P2PKH, 1000n)).toBe(BigInt(Limits.DUST_THRESHOLD));
+      expect(isDust(545n, P2PKH, 1000n)).toBe(true);
+      expect(isDust(546n, P2PKH, 1000n)).toBe(false);
+    });
+
+    it('should scale with output size and fee rate', () => {
+      const larger = new Uint8Array(100).fill(0x51);
+      expect(getDustThreshold(larger, 1000n)).toBe(3n * BigInt(8 + 1 + 100 + 148));
+      expect(getDustThreshold(P2PKH, 10_000n)).toBe(5460n);
+    });
+
+    it('should have no threshold for unspendable outputs', () => {
+      expect(getDustThreshold(hexToBytes('6a0401020304'), 1000n)).toBe(0n);
+      expect(getDustThreshold(hexToBytes('006a0401020304'), 1000n)).toBe(0n);
+    });
+  });
+});
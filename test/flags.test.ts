@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ScriptFlags,
+  STANDARD_SCRIPT_VERIFY_FLAGS,
+  MANDATORY_SCRIPT_VERIFY_FLAGS,
+  UPGRADE_SCRIPT_VERIFY_FLAGS,
+  isUpgradeActive,
+  getScriptFlagsAtHeight,
+  hasFlag,
+} from '../src/flags';
+import type { UpgradeSchedule } from '../src/flags';
+
+describe('Flags', () => {
+  it('should share the upgrade flags between the standard and mandatory sets', () => {
+    expect(STANDARD_SCRIPT_VERIFY_FLAGS & UPGRADE_SCRIPT_VERIFY_FLAGS).toBe(UPGRADE_SCRIPT_VERIFY_FLAGS);
+    expect(MANDATORY_SCRIPT_VERIFY_FLAGS & UPGRADE_SCRIPT_VERIFY_FLAGS).toBe(UPGRADE_SCRIPT_VERIFY_FLAGS);
+    expect(STANDARD_SCRIPT_VERIFY_FLAGS & MANDATORY_SCRIPT_VERIFY_FLAGS).toBe(MANDATORY_SCRIPT_VERIFY_FLAGS);
+  });
+
+  describe('getScriptFlagsAtHeight', () => {
+    const v2Height = 100;
+    const v2Time = 1_700_000_000;
+    const byHeight: UpgradeSchedule = {
+      script64BitIntegers: { height: v2Height },
+      enhancedReferences: { height: v2Height },
+    };
+    const byTime: UpgradeSchedule = {
+      enhancedReferences: { medianTimePast: v2Time },
+    };
+
+    it('should report upgrade activation by height and median-time-past', () => {
+      expect(isUpgradeActive(byHeight, 'enhancedReferences', v2Height - 1)).toBe(false);
+      expect(isUpgradeActive(byHeight, 'enhancedReferences', v2Height)).toBe(true);
+      expect(isUpgradeActive(byHeight, 'nativeIntrospection', 0)).toBe(true);
+      expect(isUpgradeActive(byTime, 'enhancedReferences', 0, v2Time - 1)).toBe(false);
+      expect(isUpgradeActive(byTime, 'enhancedReferences', 0, v2Time)).toBe(true);
+    });
+
+    it('should return the mandatory and standard sets when every upgrade is active', () => {
+      expect(getScriptFlagsAtHeight({}, 0)).toBe(MANDATORY_SCRIPT_VERIFY_FLAGS);
+      expect(getScriptFlagsAtHeight({}, 0, { standard: true })).toBe(STANDARD_SCRIPT_VERIFY_FLAGS);
+      expect(getScriptFlagsAtHeight(byHeight, v2Height)).toBe(MANDATORY_SCRIPT_VERIFY_FLAGS);
+      expect(getScriptFlagsAtHeight(byHeight, v2Height, { standard: true })).toBe(STANDARD_SCRIPT_VERIFY_FLAGS);
+    });
+
+    it('should omit upgrade flags before activation', () => {
+      const flags = getScriptFlagsAtHeight(byHeight, v2Height - 1);
+      expect(hasFlag(flags, ScriptFlags.SCRIPT_NATIVE_INTROSPECTION)).toBe(true);
+      expect(hasFlag(flags, ScriptFlags.SCRIPT_ENHANCED_REFERENCES)).toBe(false);
+      expect(hasFlag(flags, ScriptFlags.SCRIPT_64_BIT_INTEGERS)).toBe(false);
+      expect(hasFlag(flags, ScriptFlags.SCRIPT_ENABLE_SIGHASH_FORKID)).toBe(true);
+      expect(hasFlag(flags, ScriptFlags.SCRIPT_VERIFY_CLEANSTACK)).toBe(false);
+
+      const early = getScriptFlagsAtHeight(byHeight, 0, { standard: true });
+      expect(hasFlag(early, ScriptFlags.SCRIPT_VERIFY_CLEANSTACK)).toBe(true);
+      expect(hasFlag(early, ScriptFlags.SCRIPT_ENHANCED_REFERENCES)).toBe(false);
+    });
+
+    it('should activate time-based upgrades by median-time-past, not height', () => {
+      const before = getScriptFlagsAtHeight(byTime, 1_000_000, { medianTimePast: v2Time - 1 });
+      expect(hasFlag(before, ScriptFlags.SCRIPT_ENHANCED_REFERENCES)).toBe(false);
+      expect(getScriptFlagsAtHeight(byTime, 0, { medianTimePast: v2Time })).toBe(MANDATORY_SCRIPT_VERIFY_FLAGS);
+      expect(() => getScriptFlagsAtHeight(byTime, 0))
+        .toThrow('Upgrade enhancedReferences activates by median-time-past, which was not given');
+      expect(getScriptFlagsAtHeight(byHeight, 0)).toBe(getScriptFlagsAtHeight(byHeight, 0, { medianTimePast: v2Time }));
+    });
+
+    it('should reject invalid heights and times', () => {
+      expect(() => getScriptFlagsAtHeight({}, -1)).toThrow('Invalid block height: -1');
+      expect(() => getScriptFlagsAtHeight({}, 1.5)).toThrow('Invalid block height');
+      expect(() => getScriptFlagsAtHeight({}, 0, { medianTimePast: -1 })).toThrow('Invalid median-time-past: -1');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect } from 'vitest';
+import { evalScript, verifyScript, createSignatureChecker } from '../src/interpreter';
+import type { ScriptContext, SignatureChecker } from '../src/interpreter';
+import { ScriptError } from '../src/errors';
+import { ScriptFlags, STANDARD_SCRIPT_VERIFY_FLAGS } from '../src/flags';
+import { assembleScript } from '../src/script';
+import { refToBytes } from '../src/refs';
+import { hash160, sha256 } from '../src/crypto';
+import { getPublicKey } from '../src/keys';
+import { computeSighash } from '../src/sighash';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+const asm = assembleScript;
+const TXID = '11'.repeat(32);
+
+function context(overrides: Partial<ScriptContext['tx']> = {}, utxoScript = new Uint8Array(0)): ScriptContext {
+  return {
+    tx: {
+      version: 2,
+      inputs: [{ prevout: { txid: TXID, vout: 0 }, script: new Uint8Array(0), sequence: 0xfffffffe }],
+      outputs: [{ value: 1000n, script: asm('OP_TRUE') }],
+      lockTime: 0,
+      ...overrides,
+    },
+    inputIndex: 0,
+    utxos: [{ value: 5000n, script: utxoScript }],
+  };
+}
+
+describe('Interpreter', () => {
+  describe('evalScript', () => {
+    it('should evaluate arithmetic and comparison', () => {
+      const result = evalScript(asm('<2> <3> OP_ADD <5> OP_NUMEQUAL'));
+      expect(result.success).toBe(true);
+      expect(result.stack).toEqual([new Uint8Array([1])]);
+    });
+
+    it('should follow conditional branches', () => {
+      expect(evalScript(asm('OP_0 OP_IF <1> OP_ELSE <2> OP_ENDIF')).stack).toEqual([new Uint8Array([2])]);
+      expect(evalScript(asm('OP_IF')).error).toBe(ScriptError.UNBALANCED_CONDITIONAL);
+      expect(evalScript(asm('<1> OP_IF')).error).toBe(ScriptError.UNBALANCED_CONDITIONAL);
+      expect(evalScript(asm('OP_ENDIF')).error).toBe(ScriptError.UNBALANCED_CONDITIONAL);
+    });
+
+    it('should report stack errors with their position', () => {
+      const result = evalScript(asm('<1> OP_DROP OP_DROP'));
+      expect(result.error).toBe(ScriptError.INVALID_STACK_OPERATION);
+      expect(result.errorPc).toBe(2);
+    });
+
+    it('should run splice and bitwise opcodes', () => {
+      expect(evalScript(asm('0102 0304 OP_CAT')).stack).toEqual([hexToBytes('01020304')]);
+      expect(evalScript(asm('01020304 <1> OP_SPLIT')).stack).toEqual([hexToBytes('01'), hexToBytes('020304')]);
+      expect(evalScript(asm('0f0f f0ff OP_AND')).stack).toEqual([hexToBytes('000f')]);
+      expect(evalScript(asm('<1> <4> OP_NUM2BIN')).stack).toEqual([hexToBytes('01000000')]);
+      expect(evalScript(asm('0080 <1> OP_LSHIFT')).stack).toEqual([hexToBytes('0100')]);
+      expect(evalScript(asm('0102 OP_REVERSEBYTES')).stack).toEqual([hexToBytes('0201')]);
+      expect(evalScript(asm('01 0102 OP_AND')).error).toBe(ScriptError.INVALID_OPERAND_SIZE);
+    });
+
+    it('should enforce the number size for the active flags', () => {
+      const big = '<4294967296> <1> OP_ADD';
+      expect(evalScript(asm(big)).error).toBe(ScriptError.SCRIPTNUM_OVERFLOW);
+      expect(evalScript(asm(big), [], ScriptFlags.SCRIPT_64_BIT_INTEGERS).success).toBe(true);
+      expect(evalScript(asm('<1> <0> OP_DIV')).error).toBe(ScriptError.DIV_BY_ZERO);
+      expect(evalScript(asm('0100 OP_1ADD'), [], ScriptFlags.SCRIPT_VERIFY_MINIMALDATA).error)
+        .toBe(ScriptError.SCRIPTNUM_MINENCODE);
+    });
+
+    it('should reject non-minimal pushes under MINIMALDATA', () => {
+      expect(evalScript(asm('0x0105'), [], ScriptFlags.SCRIPT_VERIFY_MINIMALDATA).error).toBe(ScriptError.MINIMALDATA);
+      expect(evalScript(asm('0x0105')).success).toBe(true);
+    });
+
+    it('should hash with the crypto opcodes', () => {
+      expect(bytesToHex(evalScript(asm('OP_0 OP_SHA256')).stack[0]))
+        .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+    it('should fail on OP_RETURN and invalid opcodes', () => {
+      expect(evalScript(asm('OP_RETURN')).error).toBe(ScriptError.OP_RETURN);
+      expect(evalScript(hexToBytes('ff')).error).toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm('OP_NOP1'), [], ScriptFlags.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS).error)
+        .toBe(ScriptError.DISCOURAGE_UPGRADABLE_NOPS);
+    });
+
+    it('should only allow one state separator outside conditionals', () => {
+      expect(evalScript(asm('<1> OP_STATESEPARATOR')).success).toBe(true);
+      expect(evalScript(asm('OP_STATESEPARATOR OP_STATESEPARATOR')).error)
+        .toBe(ScriptError.INVALID_STATE_SEPARATOR_LOCATION);
+      expect(evalScript(asm('<1> OP_IF OP_STATESEPARATOR OP_ENDIF')).error)
+        .toBe(ScriptError.INVALID_STATE_SEPARATOR_LOCATION);
+    });
+  });
+
+  describe('trace', () => {
+    it('should record each step only when requested', () => {
+      const script = asm('<1> OP_0 OP_IF OP_DROP OP_ENDIF');
+      expect(evalScript(script).trace).toEqual([]);
+
+      const { trace } = evalScript(script, [], 0, { trace: true });
+      expect(trace.map(step => step.opcodeName)).toEqual(['OP_1', 'OP_0', 'OP_IF', 'OP_DROP', 'OP_ENDIF']);
+      expect(trace.map(step => step.executed)).toEqual([true, true, true, false, true]);
+      expect(trace[1].stack).toEqual([new Uint8Array([1]), new Uint8Array(0)]);
+    });
+
+    it('should mark the failing step', () => {
+      const { trace } = evalScript(asm('<1> OP_VERIFY OP_VERIFY'), [], 0, { trace: true });
+      expect(trace).toHaveLength(3);
+      expect(trace[2].error).toBe(ScriptError.INVALID_STACK_OPERATION);
+    });
+  });
+
+  describe('introspection', () => {
+    it('should require the flag and a context', () => {
+      expect(evalScript(asm('OP_TXVERSION')).error).toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm('OP_TXVERSION'), [], ScriptFlags.SCRIPT_NATIVE_INTROSPECTION).error)
+        .toBe(ScriptError.CONTEXT_NOT_PRESENT);
+    });
+
+    it('should read transaction fields', () => {
+      const flags = ScriptFlags.SCRIPT_NATIVE_INTROSPECTION;
+      const options = { context: context() };
+      const script = asm('OP_TXVERSION OP_TXINPUTCOUNT OP_0 OP_UTXOVALUE OP_0 OP_OUTPUTVALUE');
+      expect(evalScript(script, [], flags, options).stack).toEqual([
+        new Uint8Array([2]),
+        new Uint8Array([1]),
+        hexToBytes('8813'),
+        hexToBytes('e803'),
+      ]);
+      expect(evalScript(asm('<1> OP_UTXOVALUE'), [], flags, options).error).toBe(ScriptError.INVALID_TX_INPUT_INDEX);
+      expect(evalScript(asm('<1> OP_OUTPUTBYTECODE'), [], flags, options).error).toBe(ScriptError.INVALID_TX_OUTPUT_INDEX);
+    });
+
+    it('should not evaluate OP_PUSH_TX_STATE', () => {
+      const options = { context: context() };
+      const script = asm('<1> OP_PUSH_TX_STATE');
+      expect(evalScript(script, [], 0, options).error).toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(script, [], ScriptFlags.SCRIPT_PUSH_TX_STATE, options).error).toBe(ScriptError.BAD_OPCODE);
+    });
+  });
+
+  describe('references', () => {
+    const spent = bytesToHex(refToBytes({ txid: TXID, vout: 0 }));
+    const other = bytesToHex(refToBytes({ txid: '22'.repeat(32), vout: 3 }));
+    const flags = ScriptFlags.SCRIPT_ENHANCED_REFERENCES;
+
+    it('should require the flag', () => {
+      expect(evalScript(asm(`OP_PUSHINPUTREF ${spent}`), [], 0, { context: context() }).error)
+        .toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm('<0> OP_REFHASHDATASUMMARY_UTXO'), [], 0, { context: context() }).error)
+        .toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm(`${spent} OP_REFTYPE_UTXO`), [], 0, { context: context() }).error)
+        .toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm('<0> OP_CODESCRIPTBYTECODE_UTXO'), [], 0, { context: context() }).error)
+        .toBe(ScriptError.BAD_OPCODE);
+      expect(evalScript(asm('<0> OP_CODESCRIPTBYTECODE_UTXO'), [], flags, { context: context() }).success)
+        .toBe(true);
+    });
+
+    it('should accept refs to spent outpoints', () => {
+      const result = evalScript(asm(`OP_PUSHINPUTREF ${spent}`), [], flags, { context: context() });
+      expect(result.success).toBe(true);
+      expect(bytesToHex(result.stack[0])).toBe(spent);
+    });
+
+    it('should accept refs carried by spent outputs', () => {
+      const ctx = context({}, asm(`OP_PUSHINPUTREF ${other} OP_DROP`));
+      expect(evalScript(asm(`OP_PUSHINPUTREF ${other}`), [], flags, { context: ctx }).success).toBe(true);
+      expect(evalScript(asm(`OP_PUSHINPUTREFSINGLETON ${other}`), [], flags, { context: ctx }).error)
+        .toBe(ScriptError.INVALID_SINGLETON_REFERENCE);
+    });
+
+    it('should reject unknown refs', () => {
+      expect(evalScript(asm(`OP_PUSHINPUTREF ${other}`), [], flags, { context: context() }).error)
+        .toBe(ScriptError.INVALID_REFERENCE);
+      expect(evalScript(asm(`OP_PUSHINPUTREF ${other}`), [], flags).error).toBe(ScriptError.CONTEXT_NOT_PRESENT);
+    });
+  });
+
+  describe('verifyScript', () => {
+    const pubKey = hexToBytes('02' + '33'.repeat(32));
+    const sig = hexToBytes('30' + '00'.repeat(8) + '41');
+    const lockingScript = asm(`OP_DUP OP_HASH160 ${bytesToHex(hash160(pubKey))} OP_EQUALVERIFY OP_CHECKSIG`);
+    const unlockingScript = asm(`${bytesToHex(sig)} ${bytesToHex(pubKey)}`);
+    const accepting: SignatureChecker = { checkSig: () => true, checkDataSig: () => true };
+
+    it('should delegate signature checks to the checker', () => {
+      expect(verifyScript(unlockingScript, lockingScript, 0, { checker: accepting }).success).toBe(true);
+      expect(verifyScript(unlockingScript, lockingScript, 0, { context: context() }).error).toBe(ScriptError.EVAL_FALSE);
+    });
+
+    it('should require a context for the default checker', () => {
+      expect(verifyScript(unlockingScript, lockingScript).error).toBe(ScriptError.CONTEXT_NOT_PRESENT);
+      expect(verifyScript(asm('<0> <0>'), asm('OP_CHECKSIG OP_NOT')).success).toBe(true);
+    });
+
+    it('should enforce NULLFAIL and encoding rules', () => {
+      const options = { context: context() };
+      expect(verifyScript(unlockingScript, lockingScript, ScriptFlags.SCRIPT_VERIFY_NULLFAIL, options).error)
+        .toBe(ScriptError.SIG_NULLFAIL);
+      expect(verifyScript(unlockingScript, lockingScript, STANDARD_SCRIPT_VERIFY_FLAGS, { checker: accepting }).error)
+        .toBe(ScriptError.SIG_DER);
+    });
+
+    it('should verify real signatures with the default checker', () => {
+      const privateKey = hexToBytes('01'.repeat(32));
+      const key = getPublicKey(privateKey);
+      const p2pkh = asm(`OP_DUP OP_HASH160 ${bytesToHex(hash160(key))} OP_EQUALVERIFY OP_CHECKSIG`);
+      const ctx = context({}, p2pkh);
+      const digest = computeSighash(ctx.tx, 0, p2pkh, ctx.utxos[0].value, 0x41);
+      const signature = new Uint8Array([...secp256k1.sign(digest, privateKey).toDERRawBytes(), 0x41]);
+      const scriptSig = asm(`${bytesToHex(signature)} ${bytesToHex(key)}`);
+
+      expect(verifyScript(scriptSig, p2pkh, STANDARD_SCRIPT_VERIFY_FLAGS, { context: ctx }).success).toBe(true);
+      const moved = context({ lockTime: 1 }, p2pkh);
+      expect(verifyScript(scriptSig, p2pkh, STANDARD_SCRIPT_VERIFY_FLAGS, { context: moved }).error)
+        .toBe(ScriptError.SIG_NULLFAIL);
+    });
+
+    it('should verify data signatures without a context', () => {
+      const privateKey = hexToBytes('01'.repeat(32));
+      const message = new TextEncoder().encode('radiant');
+      const sig = secp256k1.sign(sha256(message), privateKey).toDERRawBytes();
+      const script = asm(`${bytesToHex(sig)} ${bytesToHex(message)} ${bytesToHex(getPublicKey(privateKey))} OP_CHECKDATASIG`);
+      expect(evalScript(script).stack).toEqual([new Uint8Array([1])]);
+      expect(createSignatureChecker().checkDataSig(sig, sha256(message), getPublicKey(privateKey), 0)).toBe(false);
+      expect(createSignatureChecker().checkSig(new Uint8Array([...sig, 0x41]), getPublicKey(privateKey), new Uint8Array(0), 0))
+        .toBe(false);
+    });
+
+    it('should count and limit signature checks', () => {
+      const result = verifyScript(unlockingScript, lockingScript, 0, { checker: accepting });
+      expect(result.sigChecks).toBe(1);
+
+      const threeChecks = asm('OP_2DUP OP_CHECKSIGVERIFY OP_2DUP OP_CHECKSIGVERIFY OP_CHECKSIG');
+      const flags = ScriptFlags.SCRIPT_VERIFY_INPUT_SIGCHECKS;
+      expect(verifyScript(unlockingScript, threeChecks, flags, { checker: accepting }).error)
+        .toBe(ScriptError.INPUT_SIGCHECKS);
+    });
+
+    it('should evaluate P2SH redeem scripts', () => {
+      const redeemScript = asm('<2> OP_EQUAL');
+      const p2sh = asm(`OP_HASH160 ${bytesToHex(hash160(redeemScript))} OP_EQUAL`);
+      const flags = ScriptFlags.SCRIPT_VERIFY_P2SH;
+      expect(verifyScript(asm(`<2> ${bytesToHex(redeemScript)}`), p2sh, flags).success).toBe(true);
+
+      const result = verifyScript(asm(`<3> ${bytesToHex(redeemScript)}`), p2sh, flags);
+      expect(result.error).toBe(ScriptError.EVAL_FALSE);
+      expect(result.errorPhase).toBe('redeemScript');
+    });
+
+    it('should apply SIGPUSHONLY and CLEANSTACK', () => {
+      expect(verifyScript(asm('<1> OP_DUP'), asm('OP_TRUE'), ScriptFlags.SCRIPT_VERIFY_SIGPUSHONLY).error)
+        .toBe(ScriptError.SIG_PUSHONLY);
+      expect(verifyScript(asm('<1> <1>'), asm('OP_TRUE'), ScriptFlags.SCRIPT_VERIFY_CLEANSTACK).error)
+        .toBe(ScriptError.CLEANSTACK);
+    });
+
+    it('should check locktimes against the context', () => {
+      const flags = ScriptFlags.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY;
+      const script = asm('<100> OP_CHECKLOCKTIMEVERIFY');
+      expect(verifyScript(new Uint8Array(0), script, flags, { context: context({ lockTime: 100 }) }).success).toBe(true);
+      expect(verifyScript(new Uint8Array(0), script, flags, { context: context({ lockTime: 99 }) }).error)
+        .toBe(ScriptError.UNSATISFIED_LOCKTIME);
+    });
+
+    it('should only treat bit 31 of a CSV operand as the disable flag', () => {
+      const flags = ScriptFlags.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY;
+      const withSequence = (sequence: number) => context({
+        inputs: [{ prevout: { txid: TXID, vout: 0 }, script: new Uint8Array(0), sequence }],
+      });
+      const verify = (operand: number, sequence: number) =>
+        verifyScript(new Uint8Array(0), asm(`<${operand}> OP_CHECKSEQUENCEVERIFY`), flags, { context: withSequence(sequence) });
+
+      expect(verify(0x80000000, 0).success).toBe(true);
+      expect(verify(0x100000005, 10).success).toBe(true);
+      expect(verify(0x10000000b, 10).error).toBe(ScriptError.UNSATISFIED_LOCKTIME);
+      expect(verify(0x100000000, 0x80000000).error).toBe(ScriptError.UNSATISFIED_LOCKTIME);
+    });
+  });
+});
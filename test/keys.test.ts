@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { SECP256K1_ORDER, isValidPrivateKey, encodeWif, decodeWif } from '../src/keys';
+import { mainnet, testnet, regtest } from '../src/networks';
+import { base58CheckEncode, hexToBytes } from '../src/encoding';
+
+const KEY = hexToBytes('0c28fca386c7a227600b2fe50b7cae11ec86d3bf1fbe471be89827e19d72aa1d');
+const WIF_UNCOMPRESSED = '5HueCGU8rMjxEXxiPuD5BDku4MkFqeZyd4dZ1jvhTVqvbTLvyTJ';
+const WIF_COMPRESSED = 'KwdMAjGmerYanjeui5SHS7JkmpZvVipYvB2LJGU1ZxJwYvP98617';
+
+describe('Private Keys', () => {
+  describe('isValidPrivateKey', () => {
+    it('should accept keys in [1, n-1]', () => {
+      expect(isValidPrivateKey(KEY)).toBe(true);
+      expect(isValidPrivateKey(hexToBytes((SECP256K1_ORDER - 1n).toString(16)))).toBe(true);
+    });
+
+    it('should reject zero, n and wrong lengths', () => {
+      expect(isValidPrivateKey(new Uint8Array(32))).toBe(false);
+      expect(isValidPrivateKey(hexToBytes(SECP256K1_ORDER.toString(16)))).toBe(false);
+      expect(isValidPrivateKey(new Uint8Array(31).fill(1))).toBe(false);
+    });
+  });
+
+  describe('encodeWif', () => {
+    it('should encode compressed and uncompressed keys', () => {
+      expect(encodeWif(KEY)).toBe(WIF_COMPRESSED);
+      expect(encodeWif(KEY, { compressed: false })).toBe(WIF_UNCOMPRESSED);
+    });
+
+    it('should use the network version byte', () => {
+      expect(encodeWif(KEY, { network: testnet })[0]).toBe('c');
+    });
+
+    it('should reject invalid keys', () => {
+      expect(() => encodeWif(new Uint8Array(32))).toThrow('range');
+    });
+  });
+
+  describe('decodeWif', () => {
+    it('should decode mainnet keys', () => {
+      expect(decodeWif(WIF_COMPRESSED)).toEqual({
+        privateKey: KEY,
+        compressed: true,
+        network: mainnet,
+        networks: [mainnet],
+        ambiguous: false,
+      });
+      expect(decodeWif(WIF_UNCOMPRESSED).compressed).toBe(false);
+    });
+
+    it('should report the testnet/regtest ambiguity', () => {
+      const decoded = decodeWif(encodeWif(KEY, { network: regtest }));
+      expect(decoded.ambiguous).toBe(true);
+      expect(decoded.networks).toEqual([testnet, regtest]);
+      expect(decodeWif(encodeWif(KEY, { network: regtest }), regtest).network).toBe(regtest);
+    });
+
+    it('should explain invalid keys', () => {
+      expect(() => decodeWif(WIF_COMPRESSED.slice(0, -1) + '8')).toThrow('checksum');
+      expect(() => decodeWif(WIF_COMPRESSED, testnet)).toThrow('does not belong to testnet');
+      expect(() => decodeWif(base58CheckEncode(new Uint8Array(20)))).toThrow('Invalid WIF length');
+      const badFlag = new Uint8Array(34);
+      badFlag[0] = 0x80;
+      badFlag.set(KEY, 1);
+      badFlag[33] = 0x02;
+      expect(() => decodeWif(base58CheckEncode(badFlag))).toThrow('compression flag');
+      const zeroKey = new Uint8Array(33);
+      zeroKey[0] = 0x80;
+      expect(() => decodeWif(base58CheckEncode(zeroKey))).toThrow('secp256k1 range');
+    });
+  });
+});
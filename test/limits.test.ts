@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Limits, parseRxd, formatRxd } from '../src/limits';
+
+describe('Limits', () => {
+  describe('parseRxd', () => {
+    it('should parse decimal amounts exactly', () => {
+      expect(parseRxd('123.45678901')).toBe(12_345_678_901n);
+      expect(parseRxd('0.00000001')).toBe(1n);
+      expect(parseRxd('1')).toBe(100_000_000n);
+      expect(parseRxd('0.1')).toBe(10_000_000n);
+      expect(parseRxd('21000000000')).toBe(Limits.MAX_MONEY);
+      expect(parseRxd('20999999999.99999999')).toBe(Limits.MAX_MONEY - 1n);
+    });
+
+    it('should reject more than 8 decimal places', () => {
+      expect(() => parseRxd('1.000000001')).toThrow('more than 8 decimal places');
+    });
+
+    it('should reject out-of-range and malformed amounts', () => {
+      expect(() => parseRxd('21000000000.00000001')).toThrow('exceeds MAX_MONEY');
+      expect(() => parseRxd('-1')).toThrow('Invalid RXD amount');
+      expect(() => parseRxd('1.')).toThrow('Invalid RXD amount');
+      expect(() => parseRxd('.5')).toThrow('Invalid RXD amount');
+      expect(() => parseRxd('1e8')).toThrow('Invalid RXD amount');
+      expect(() => parseRxd(' 1')).toThrow('Invalid RXD amount');
+    });
+  });
+
+  describe('formatRxd', () => {
+    it('should format photons exactly', () => {
+      expect(formatRxd(12_345_678_901n)).toBe('123.45678901');
+      expect(formatRxd(1n)).toBe('0.00000001');
+      expect(formatRxd(100_000_000n)).toBe('1');
+      expect(formatRxd(Limits.MAX_MONEY - 1n)).toBe('20999999999.99999999');
+      expect(formatRxd(-150_000_000n)).toBe('-1.5');
+    });
+
+    it('should apply minDecimals, groupSeparator and unit', () => {
+      expect(formatRxd(150_000_000n, { minDecimals: 2 })).toBe('1.50');
+      expect(formatRxd(0n, { minDecimals: 8 })).toBe('0.00000000');
+      expect(formatRxd(Limits.MAX_MONEY, { groupSeparator: ',' })).toBe('21,000,000,000');
+      expect(formatRxd(123_456_700_000_000n, { groupSeparator: ' ', unit: true })).toBe('1 234 567 RXD');
+      expect(() => formatRxd(1n, { minDecimals: 9 })).toThrow('minDecimals');
+    });
+
+    it('should round-trip with parseRxd', () => {
+      for (const amount of ['0', '0.5', '1.00000001', '20999999999.99999999']) {
+        expect(formatRxd(parseRxd(amount))).toBe(amount);
+      }
+    });
+  });
+});
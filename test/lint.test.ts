@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { lintScript, LintSeverity } from '../src/lint';
+import { ScriptError } from '../src/errors';
+import { ScriptFlags, STANDARD_SCRIPT_VERIFY_FLAGS } from '../src/flags';
+import { Opcodes } from '../src/opcodes';
+import { assembleScript } from '../src/script';
+import { hexToBytes } from '../src/encoding';
+
+const codes = (script: Uint8Array, options = {}) => lintScript(script, options).map(f => f.code);
+
+describe('Script Linter', () => {
+  it('should accept a standard P2PKH script', () => {
+    const script = assembleScript(`OP_DUP OP_HASH160 ${'00'.repeat(20)} OP_EQUALVERIFY OP_CHECKSIG`);
+    expect(lintScript(script, { flags: STANDARD_SCRIPT_VERIFY_FLAGS })).toEqual([]);
+  });
+
+  it('should flag non-minimal pushes only under MINIMALDATA', () => {
+    const script = hexToBytes('4c0105');
+    expect(codes(script)).toEqual([]);
+
+    const [finding] = lintScript(script, { flags: ScriptFlags.SCRIPT_VERIFY_MINIMALDATA });
+    expect(finding).toMatchObject({
+      code: ScriptError.MINIMALDATA,
+      severity: LintSeverity.WARNING,
+      policy: true,
+      offset: 0,
+      opcode: Opcodes.OP_PUSHDATA1,
+    });
+    expect(finding.message).toBe('Data push larger than necessary: OP_PUSHDATA1 of 1 bytes');
+  });
+
+  it('should flag non-push opcodes in a scriptSig under SIGPUSHONLY', () => {
+    const script = assembleScript('<1> OP_DUP');
+    const flags = ScriptFlags.SCRIPT_VERIFY_SIGPUSHONLY;
+    expect(codes(script, { flags })).toEqual([]);
+    expect(codes(script, { flags, scriptSig: true })).toEqual([ScriptError.SIG_PUSHONLY]);
+  });
+
+  it('should flag upgradable NOPs, including CLTV without its flag', () => {
+    const flags = ScriptFlags.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS;
+    expect(codes(assembleScript('OP_NOP OP_NOP1 OP_CHECKLOCKTIMEVERIFY'), { flags }))
+      .toEqual([ScriptError.DISCOURAGE_UPGRADABLE_NOPS, ScriptError.DISCOURAGE_UPGRADABLE_NOPS]);
+    expect(codes(assembleScript('OP_CHECKLOCKTIMEVERIFY'), {
+      flags: flags | ScriptFlags.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY,
+    })).toEqual([]);
+  });
+
+  it('should distinguish OP_VERIF from reserved opcodes', () => {
+    const findings = lintScript(assembleScript('OP_VERIF OP_RESERVED'));
+    expect(findings.map(f => [f.code, f.severity])).toEqual([
+      [ScriptError.BAD_OPCODE, LintSeverity.ERROR],
+      [ScriptError.BAD_OPCODE, LintSeverity.WARNING],
+    ]);
+  });
+
+  it('should flag opcodes whose flag is not active', () => {
+    const [finding] = lintScript(assembleScript('OP_TXVERSION'));
+    expect(finding.code).toBe(ScriptError.BAD_OPCODE);
+    expect(finding.message).toContain('SCRIPT_NATIVE_INTROSPECTION');
+    expect(lintScript(assembleScript('OP_TXVERSION'), { flags: ScriptFlags.SCRIPT_NATIVE_INTROSPECTION })).toEqual([]);
+  });
+
+  it('should flag unbalanced conditionals', () => {
+    expect(codes(assembleScript('OP_1 OP_IF OP_ELSE OP_ENDIF'))).toEqual([]);
+    expect(codes(assembleScript('OP_ENDIF'))).toEqual([ScriptError.UNBALANCED_CONDITIONAL]);
+    const [finding] = lintScript(assembleScript('OP_1 OP_IF OP_IF'));
+    expect(finding).toMatchObject({ code: ScriptError.UNBALANCED_CONDITIONAL, offset: -1 });
+  });
+
+  it('should flag truncated pushes', () => {
+    expect(codes(hexToBytes('4e01000200' + '00'.repeat(3)))).toEqual([ScriptError.BAD_OPCODE]);
+    expect(codes(hexToBytes('05aabb'))).toEqual([ScriptError.BAD_OPCODE]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  mainnet,
+  testnet,
+  regtest,
+  getNetwork,
+  getNetworkByMagic,
+  getNetworks,
+  registerNetwork,
+  unregisterNetwork,
+  exportNetworkRegistry,
+  importNetworkRegistry,
+  isMainnet,
+  isRegtest,
+} from '../src/networks';
+import type { NetworkParams } from '../src/networks';
+import { encodeAddress, decodeAddress } from '../src/address';
+
+const devnet: NetworkParams = {
+  name: 'devnet',
+  alias: 'dev',
+  pubKeyHash: 0x1e,
+  scriptHash: 0x16,
+  privateKey: 0x9e,
+  xpubkey: 0x02facafd,
+  xprivkey: 0x02fac398,
+  networkMagic: new Uint8Array([0xde, 0xad, 0xbe, 0xef]),
+  port: 27333,
+  dnsSeeds: [],
+  consensus: regtest.consensus,
+};
+
+describe('Networks', () => {
+  afterEach(() => {
+    unregisterNetwork('devnet');
+  });
+
+  describe('lookups', () => {
+    it('should find built-in networks by name, alias and magic', () => {
+      expect(getNetwork('LIVENET')).toBe(mainnet);
+      expect(getNetwork('testnet')).toBe(testnet);
+      expect(getNetworkByMagic(new Uint8Array([0xfa, 0xbf, 0xb5, 0xda]))).toBe(regtest);
+      expect(getNetwork('devnet')).toBeUndefined();
+    });
+
+    it('should resolve names in the predicates', () => {
+      expect(isMainnet('livenet')).toBe(true);
+      expect(isMainnet(mainnet)).toBe(true);
+      expect(isRegtest('mainnet')).toBe(false);
+    });
+  });
+
+  describe('registerNetwork', () => {
+    it('should make a custom network visible to lookups and decoders', () => {
+      registerNetwork(devnet);
+      expect(getNetwork('dev')?.name).toBe('devnet');
+      expect(getNetworkByMagic(devnet.networkMagic)?.name).toBe('devnet');
+      expect(getNetworks().map(n => n.name)).toEqual(['mainnet', 'testnet', 'regtest', 'devnet']);
+      expect(isMainnet('devnet')).toBe(false);
+
+      const address = encodeAddress(new Uint8Array(20), 'p2pkh', devnet);
+      expect(decodeAddress(address).network?.name).toBe('devnet');
+    });
+
+    it('should reject duplicate names, aliases and magic', () => {
+      registerNetwork(devnet);
+      expect(() => registerNetwork({ ...devnet, networkMagic: new Uint8Array(4) })).toThrow('already registered: "devnet"');
+      expect(() => registerNetwork({ ...devnet, name: 'other', alias: 'livenet' })).toThrow('already registered: "livenet"');
+      expect(() => registerNetwork({ ...devnet, name: 'other', alias: 'other', networkMagic: mainnet.networkMagic }))
+        .toThrow('already used by mainnet');
+    });
+
+    it('should validate byte ranges', () => {
+      expect(() => registerNetwork({ ...devnet, pubKeyHash: 256 })).toThrow('Invalid network pubKeyHash: 256');
+      expect(() => registerNetwork({ ...devnet, port: 0 })).toThrow('Invalid network port');
+      expect(() => registerNetwork({ ...devnet, networkMagic: new Uint8Array(3) })).toThrow('4 bytes');
+      expect(() => registerNetwork({ ...devnet, scriptHash: devnet.pubKeyHash })).toThrow('must differ');
+    });
+  });
+
+  describe('consensus params', () => {
+    it('should share the 5 minute block target', () => {
+      for (const network of [mainnet, testnet, regtest]) {
+        expect(network.consensus.powTargetSpacing).toBe(300);
+      }
+    });
+
+    it('should validate custom consensus params', () => {
+      const consensus = { ...regtest.consensus, powLimit: 'abcd' };
+      expect(() => registerNetwork({ ...devnet, consensus })).toThrow('Invalid network powLimit');
+      expect(() => registerNetwork({ ...devnet, consensus: { ...regtest.consensus, subsidyHalvingInterval: 0 } }))
+        .toThrow('Invalid network subsidyHalvingInterval: 0');
+    });
+
+    it('should copy consensus params on registration', () => {
+      const registered = registerNetwork(devnet);
+      expect(registered.consensus).toEqual(regtest.consensus);
+      expect(registered.consensus).not.toBe(regtest.consensus);
+    });
+  });
+
+  describe('unregisterNetwork', () => {
+    it('should remove custom networks only', () => {
+      registerNetwork(devnet);
+      expect(unregisterNetwork('dev')).toBe(true);
+      expect(unregisterNetwork('devnet')).toBe(false);
+      expect(() => unregisterNetwork('livenet')).toThrow('built-in network: mainnet');
+    });
+  });
+
+  describe('registry snapshots', () => {
+    it('should round-trip custom networks through JSON', () => {
+      registerNetwork(devnet);
+      const json = JSON.stringify(exportNetworkRegistry());
+      expect(JSON.parse(json).networks[0].networkMagic).toBe('deadbeef');
+
+      unregisterNetwork('devnet');
+      const [restored] = importNetworkRegistry(json);
+      expect(restored).toEqual(devnet);
+      expect(getNetwork('devnet')).toEqual(devnet);
+    });
+
+    it('should register nothing when any entry fails', () => {
+      const snapshot = { networks: [devnet, { ...devnet, name: 'second', alias: 'second' }] };
+      const json = JSON.stringify({
+        networks: snapshot.networks.map(n => ({ ...n, networkMagic: 'deadbeef' })),
+      });
+      expect(() => importNetworkRegistry(json)).toThrow('already used by devnet');
+      expect(getNetwork('devnet')).toBeUndefined();
+    });
+
+    it('should reject snapshots whose dnsSeeds are not strings', () => {
+      const serialized = { ...devnet, networkMagic: 'deadbeef' };
+      for (const dnsSeeds of [undefined, 'seed.example.com', [1], [null]]) {
+        const json = JSON.stringify({ networks: [{ ...serialized, dnsSeeds }] });
+        expect(() => importNetworkRegistry(json)).toThrow('Network dnsSeeds must be an array of strings');
+      }
+      expect(getNetwork('devnet')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Opcodes,
+  OpcodeNames,
+  OpcodeCategory,
+  OpcodeInfoTable,
+  getOpcodeInfo,
+  isIntrospectionOpcode,
+  isReferenceOpcode,
+} from '../src/opcodes';
+import { ScriptFlags } from '../src/flags';
+
+describe('Opcode metadata', () => {
+  it('should have an entry for every named opcode', () => {
+    for (const [value, name] of Object.entries(OpcodeNames)) {
+      const info = OpcodeInfoTable[Number(value)];
+      expect([info?.name, ...(info?.aliases ?? [])]).toContain(name);
+    }
+  });
+
+  it('should list aliases', () => {
+    expect(getOpcodeInfo(Opcodes.OP_0)?.aliases).toEqual(['OP_FALSE']);
+    expect(getOpcodeInfo(Opcodes.OP_CHECKLOCKTIMEVERIFY)?.aliases).toEqual(['OP_NOP2']);
+    expect(getOpcodeInfo(Opcodes.OP_DUP)?.aliases).toEqual([]);
+  });
+
+  it('should describe stack effects', () => {
+    expect(getOpcodeInfo(Opcodes.OP_DUP)).toMatchObject({ inputs: 1, outputs: 2 });
+    expect(getOpcodeInfo(Opcodes.OP_CHECKSIG)).toMatchObject({ inputs: 2, outputs: 1 });
+    expect(getOpcodeInfo(Opcodes.OP_PICK)).toMatchObject({ inputs: null, outputs: null });
+  });
+
+  it('should count only opcodes above OP_16 toward the op limit', () => {
+    expect(getOpcodeInfo(Opcodes.OP_16)?.countsTowardOpLimit).toBe(false);
+    expect(getOpcodeInfo(Opcodes.OP_RESERVED)?.countsTowardOpLimit).toBe(false);
+    expect(getOpcodeInfo(Opcodes.OP_NOP)?.countsTowardOpLimit).toBe(true);
+  });
+
+  it('should flag disabled and reserved opcodes', () => {
+    expect(getOpcodeInfo(Opcodes.OP_VERIF)?.disabled).toBe(true);
+    expect(getOpcodeInfo(Opcodes.OP_RESERVED)?.reserved).toBe(true);
+    expect(getOpcodeInfo(Opcodes.OP_CAT)).toMatchObject({ disabled: false, reserved: false });
+  });
+
+  it('should record the enabling flag', () => {
+    expect(getOpcodeInfo(Opcodes.OP_PUSH_TX_STATE)?.requiredFlag).toBe(ScriptFlags.SCRIPT_PUSH_TX_STATE);
+    expect(getOpcodeInfo(Opcodes.OP_ADD)?.requiredFlag).toBeUndefined();
+    for (let op = 0xc0; op <= 0xcd; op++) {
+      expect(getOpcodeInfo(op)?.requiredFlag).toBe(ScriptFlags.SCRIPT_NATIVE_INTROSPECTION);
+    }
+    for (let op = 0; op <= 0xff; op++) {
+      if (!isReferenceOpcode(op)) continue;
+      expect(getOpcodeInfo(op)?.requiredFlag).toBe(
+        op === Opcodes.OP_PUSH_TX_STATE ? ScriptFlags.SCRIPT_PUSH_TX_STATE : ScriptFlags.SCRIPT_ENHANCED_REFERENCES
+      );
+    }
+  });
+
+  it('should agree with the range-based category checks', () => {
+    for (let op = 0; op <= 0xff; op++) {
+      if (getOpcodeInfo(op)?.requiredFlag === ScriptFlags.SCRIPT_NATIVE_INTROSPECTION) {
+        expect(isIntrospectionOpcode(op)).toBe(true);
+        expect(getOpcodeInfo(op)?.category).toBe(OpcodeCategory.INTROSPECTION);
+      }
+    }
+  });
+
+  it('should have no entry for direct pushes or unassigned bytes', () => {
+    expect(getOpcodeInfo(0x14)).toBeUndefined();
+    expect(getOpcodeInfo(0xf0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  refFromBytes,
+  refToBytes,
+  parseRef,
+  formatRef,
+  refsEqual,
+  extractRefs,
+} from '../src/refs';
+import { Opcodes } from '../src/opcodes';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+
+// Display-order txid and the raw script bytes of <txid>:1
+const TXID = '00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff';
+const RAW = 'ffeeddccbbaa99887766554433221100ffeeddccbbaa9988776655443322110001000000';
+
+describe('References', () => {
+  describe('refFromBytes / refToBytes', () => {
+    it('should reverse the txid and read a little-endian vout', () => {
+      expect(refFromBytes(hexToBytes(RAW))).toEqual({ txid: TXID, vout: 1 });
+      expect(bytesToHex(refToBytes({ txid: TXID, vout: 1 }))).toBe(RAW);
+    });
+
+    it('should handle the full vout range', () => {
+      const ref = { txid: TXID, vout: 0xffffffff };
+      expect(refFromBytes(refToBytes(ref))).toEqual(ref);
+    });
+
+    it('should reject wrong lengths and invalid fields', () => {
+      expect(() => refFromBytes(new Uint8Array(35))).toThrow('36 bytes');
+      expect(() => refToBytes({ txid: 'abcd', vout: 0 })).toThrow('Invalid ref txid');
+      expect(() => refToBytes({ txid: TXID, vout: -1 })).toThrow('Invalid ref vout');
+    });
+  });
+
+  describe('parseRef', () => {
+    it('should parse all string forms', () => {
+      expect(parseRef(`${TXID}:1`)).toEqual({ txid: TXID, vout: 1 });
+      expect(parseRef(`${TXID}_1`)).toEqual({ txid: TXID, vout: 1 });
+      expect(parseRef(RAW)).toEqual({ txid: TXID, vout: 1 });
+      expect(parseRef(hexToBytes(RAW))).toEqual({ txid: TXID, vout: 1 });
+    });
+
+    it('should normalise txid case', () => {
+      expect(parseRef(`${TXID.toUpperCase()}:2`).txid).toBe(TXID);
+    });
+
+    it('should reject malformed refs', () => {
+      expect(() => parseRef(`${TXID}:`)).toThrow('Invalid ref');
+      expect(() => parseRef(`${TXID}:4294967296`)).toThrow('Invalid ref vout');
+      expect(() => parseRef('not-a-ref')).toThrow('Invalid ref');
+    });
+  });
+
+  describe('formatRef', () => {
+    it('should format each string form', () => {
+      const ref = { txid: TXID, vout: 1 };
+      expect(formatRef(ref)).toBe(`${TXID}:1`);
+      expect(formatRef(ref, 'underscore')).toBe(`${TXID}_1`);
+      expect(formatRef(ref, 'hex')).toBe(RAW);
+    });
+  });
+
+  describe('refsEqual', () => {
+    it('should compare txid case-insensitively', () => {
+      expect(refsEqual({ txid: TXID, vout: 1 }, { txid: TXID.toUpperCase(), vout: 1 })).toBe(true);
+      expect(refsEqual({ txid: TXID, vout: 1 }, { txid: TXID, vout: 2 })).toBe(false);
+    });
+  });
+
+  describe('extractRefs', () => {
+    it('should list refs with the opcode that carries them', () => {
+      const other = 'bb'.repeat(36);
+      const script = hexToBytes(`d0${RAW}75d2${other}d8${RAW}75`);
+      const refs = extractRefs(script);
+      expect(refs.map(r => r.opcode)).toEqual([
+        Opcodes.OP_PUSHINPUTREF,
+        Opcodes.OP_DISALLOWPUSHINPUTREF,
+        Opcodes.OP_PUSHINPUTREFSINGLETON,
+      ]);
+      expect(refs.map(r => r.offset)).toEqual([0, 38, 75]);
+      expect(refs[0].ref).toEqual({ txid: TXID, vout: 1 });
+      expect(refs[1].ref).toEqual(refFromBytes(hexToBytes(other)));
+    });
+
+    it('should ignore 36-byte data pushes and truncated operands', () => {
+      expect(extractRefs(hexToBytes(`24${RAW}`))).toEqual([]);
+      expect(extractRefs(hexToBytes('d1abcd'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasRefOperand,
+  parseScript,
+  getMinimalPushOpcode,
+  isMinimalPush,
+  encodePushNumber,
+  getAsmOpcodeName,
+  disassembleScript,
+  assembleScript,
+  findStateSeparator,
+  splitStateScript,
+  countOps,
+  countSigChecks,
+} from '../src/script';
+import { Opcodes, getOpcodeName } from '../src/opcodes';
+import { ScriptFlags } from '../src/flags';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+import { hash256 } from '../src/crypto';
+
+const REF_HEX = 'aa'.repeat(32) + '01000000';
+
+describe('Script', () => {
+  describe('getAsmOpcodeName', () => {
+    it('should prefer canonical names over aliases', () => {
+      expect(getAsmOpcodeName(0x00)).toBe('OP_0');
+      expect(getAsmOpcodeName(0x51)).toBe('OP_1');
+      expect(getAsmOpcodeName(0xb1)).toBe('OP_CHECKLOCKTIMEVERIFY');
+      expect(getAsmOpcodeName(0xb2)).toBe('OP_CHECKSEQUENCEVERIFY');
+      expect(getAsmOpcodeName(0xee)).toBe('UNKNOWN_0xee');
+    });
+
+    it('should leave the getOpcodeName table unchanged', () => {
+      expect(getOpcodeName(0x00)).toBe('OP_FALSE');
+      expect(getOpcodeName(0x51)).toBe('OP_TRUE');
+      expect(getOpcodeName(0xb1)).toBe('OP_NOP2');
+    });
+  });
+
+  describe('hasRefOperand', () => {
+    it('should identify opcodes carrying a reference operand', () => {
+      expect(hasRefOperand(Opcodes.OP_PUSHINPUTREF)).toBe(true);
+      expect(hasRefOperand(Opcodes.OP_PUSHINPUTREFSINGLETON)).toBe(true);
+      expect(hasRefOperand(Opcodes.OP_REFTYPE_UTXO)).toBe(false);
+    });
+  });
+
+  describe('parseScript', () => {
+    it('should decode direct pushes and opcodes', () => {
+      const chunks = parseScript(hexToBytes('76a914' + '11'.repeat(20) + '88ac'));
+      expect(chunks.map(c => c.opcode)).toEqual([0x76, 0xa9, 0x14, 0x88, 0xac]);
+      expect(chunks[2].data).toEqual(new Uint8Array(20).fill(0x11));
+      expect(chunks[3].offset).toBe(23);
+    });
+
+    it('should decode OP_PUSHDATA1/2/4 lengths', () => {
+      expect(parseScript(hexToBytes('4c02abcd'))[0].data).toEqual(hexToBytes('abcd'));
+      expect(parseScript(hexToBytes('4d0200abcd'))[0].data).toEqual(hexToBytes('abcd'));
+      expect(parseScript(hexToBytes('4e02000000abcd'))[0].data).toEqual(hexToBytes('abcd'));
+    });
+
+    it('should decode reference operands', () => {
+      const chunks = parseScript(hexToBytes('d0' + REF_HEX + '75'));
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].data).toEqual(hexToBytes(REF_HEX));
+      expect(chunks[1].offset).toBe(37);
+    });
+
+    it('should flag truncated pushes and stop decoding', () => {
+      const chunks = parseScript(hexToBytes('5103abcd'));
+      expect(chunks).toHaveLength(2);
+      expect(chunks[1]).toEqual({ offset: 1, opcode: 3, data: hexToBytes('abcd'), truncated: true });
+    });
+
+    it('should flag a truncated length field', () => {
+      const chunks = parseScript(hexToBytes('4d01'));
+      expect(chunks[0].truncated).toBe(true);
+      expect(chunks[0].data).toEqual(new Uint8Array(0));
+    });
+  });
+
+  describe('disassembleScript', () => {
+    it('should produce ASM for a P2PKH script', () => {
+      const { asm } = disassembleScript(hexToBytes('76a914' + '11'.repeat(20) + '88ac'));
+      expect(asm).toBe(`OP_DUP OP_HASH160 ${'11'.repeat(20)} OP_EQUALVERIFY OP_CHECKSIG`);
+    });
+
+    it('should show OP_PUSHDATA and reference operands after the opcode name', () => {
+      expect(disassembleScript(hexToBytes('4c02abcd')).asm).toBe('OP_PUSHDATA1 abcd');
+      expect(disassembleScript(hexToBytes('d8' + REF_HEX)).asm).toBe(`OP_PUSHINPUTREFSINGLETON ${REF_HEX}`);
+    });
+
+    it('should name unknown bytes', () => {
+      expect(disassembleScript(hexToBytes('00f0ff')).asm).toBe('OP_0 UNKNOWN_0xf0 INVALIDOPCODE');
+    });
+
+    it('should mark truncated pushes', () => {
+      expect(disassembleScript(hexToBytes('03abcd')).asm).toBe('abcd [error]');
+      expect(disassembleScript(hexToBytes('4d01')).asm).toBe('OP_PUSHDATA2 [error]');
+      expect(disassembleScript(hexToBytes('d0abcd')).asm).toBe('OP_PUSHINPUTREF abcd [error]');
+    });
+
+    it('should return an empty result for an empty script', () => {
+      expect(disassembleScript(new Uint8Array(0))).toEqual({ chunks: [], asm: '' });
+    });
+  });
+
+  describe('getMinimalPushOpcode', () => {
+    it('should pick the minimal push for each data size', () => {
+      expect(getMinimalPushOpcode(new Uint8Array(0))).toBe(Opcodes.OP_0);
+      expect(getMinimalPushOpcode(new Uint8Array([5]))).toBe(Opcodes.OP_5);
+      expect(getMinimalPushOpcode(new Uint8Array([0x81]))).toBe(Opcodes.OP_1NEGATE);
+      expect(getMinimalPushOpcode(new Uint8Array([0x11]))).toBe(0x01);
+      expect(getMinimalPushOpcode(new Uint8Array(75))).toBe(75);
+      expect(getMinimalPushOpcode(new Uint8Array(76))).toBe(Opcodes.OP_PUSHDATA1);
+      expect(getMinimalPushOpcode(new Uint8Array(256))).toBe(Opcodes.OP_PUSHDATA2);
+      expect(getMinimalPushOpcode(new Uint8Array(65536))).toBe(Opcodes.OP_PUSHDATA4);
+    });
+
+    it('should detect non-minimal pushes', () => {
+      expect(isMinimalPush(0x01, new Uint8Array([5]))).toBe(false);
+      expect(isMinimalPush(Opcodes.OP_PUSHDATA1, new Uint8Array(10))).toBe(false);
+      expect(isMinimalPush(Opcodes.OP_0)).toBe(true);
+    });
+  });
+
+  describe('encodePushNumber', () => {
+    it('should use small integer opcodes', () => {
+      expect(encodePushNumber(0)).toEqual(new Uint8Array([Opcodes.OP_0]));
+      expect(encodePushNumber(-1)).toEqual(new Uint8Array([Opcodes.OP_1NEGATE]));
+      expect(encodePushNumber(16)).toEqual(new Uint8Array([Opcodes.OP_16]));
+    });
+
+    it('should encode sign-magnitude little-endian pushes', () => {
+      expect(bytesToHex(encodePushNumber(17))).toBe('0111');
+      expect(bytesToHex(encodePushNumber(-2))).toBe('0182');
+      expect(bytesToHex(encodePushNumber(128))).toBe('028000');
+      expect(bytesToHex(encodePushNumber(-128))).toBe('028080');
+      expect(bytesToHex(encodePushNumber(1000))).toBe('02e803');
+    });
+  });
+
+  describe('assembleScript', () => {
+    it('should assemble opcode names and aliases', () => {
+      expect(bytesToHex(assembleScript('OP_FALSE OP_TRUE OP_NOP2 OP_CHECKLOCKTIMEVERIFY'))).toBe('0051b1b1');
+    });
+
+    it('should encode hex data with minimal pushes', () => {
+      expect(bytesToHex(assembleScript('05'))).toBe('55');
+      expect(bytesToHex(assembleScript('81'))).toBe('4f');
+      expect(bytesToHex(assembleScript('abcd'))).toBe('02abcd');
+      expect(bytesToHex(assembleScript('ab'.repeat(76)))).toBe('4c4c' + 'ab'.repeat(76));
+    });
+
+    it('should encode small integers', () => {
+      expect(bytesToHex(assembleScript('<0> <-1> <10> <1000>'))).toBe('004f5a02e803');
+    });
+
+    it('should honour explicit OP_PUSHDATA encodings and raw bytes', () => {
+      expect(bytesToHex(assembleScript('OP_PUSHDATA1 abcd'))).toBe('4c02abcd');
+      expect(bytesToHex(assembleScript('OP_PUSHDATA2 abcd'))).toBe('4d0200abcd');
+      expect(bytesToHex(assembleScript('0x0105'))).toBe('0105');
+    });
+
+    it('should assemble reference operands', () => {
+      expect(bytesToHex(assembleScript(`OP_PUSHINPUTREF ${REF_HEX}`))).toBe('d0' + REF_HEX);
+      expect(() => assembleScript('OP_PUSHINPUTREF abcd')).toThrow('36-byte reference');
+      expect(() => assembleScript('OP_REQUIREINPUTREF')).toThrow('must be followed by hex data');
+    });
+
+    it('should reject invalid tokens', () => {
+      expect(() => assembleScript('OP_BOGUS')).toThrow('Invalid ASM token');
+      expect(() => assembleScript('abc')).toThrow('Invalid ASM token');
+    });
+
+    it('should assemble unassigned opcodes written as UNKNOWN_0x..', () => {
+      expect(disassembleScript(hexToBytes('ee')).asm).toBe('UNKNOWN_0xee');
+      expect(bytesToHex(assembleScript('UNKNOWN_0xee UNKNOWN_0xfe'))).toBe('eefe');
+    });
+
+    it('should round-trip through disassembleScript', () => {
+      const scripts = [
+        '76a914' + '11'.repeat(20) + '88ac',
+        '4c02abcd',
+        '4c00',
+        '4d0200abcd',
+        '0105',
+        '00' + '4f' + '60',
+        'd8' + REF_HEX + 'bd' + '51',
+        '4c4c' + 'ab'.repeat(76),
+      ];
+      for (const hex of scripts) {
+        const { asm } = disassembleScript(hexToBytes(hex));
+        expect(bytesToHex(assembleScript(asm))).toBe(hex);
+      }
+    });
+
+    it('should round-trip every single-byte opcode', () => {
+      for (let opcode = 0x00; opcode <= 0xff; opcode++) {
+        let operand = '';
+        if (opcode >= 0x01 && opcode < Opcodes.OP_PUSHDATA1) operand = '5a'.repeat(opcode);
+        else if (opcode === Opcodes.OP_PUSHDATA1) operand = '015a';
+        else if (opcode === Opcodes.OP_PUSHDATA2) operand = '01005a';
+        else if (opcode === Opcodes.OP_PUSHDATA4) operand = '010000005a';
+        else if (hasRefOperand(opcode)) operand = REF_HEX;
+        const hex = opcode.toString(16).padStart(2, '0') + operand;
+        expect(bytesToHex(assembleScript(disassembleScript(hexToBytes(hex)).asm))).toBe(hex);
+      }
+    });
+  });
+
+  describe('splitStateScript', () => {
+    it('should split at OP_STATESEPARATOR', () => {
+      const result = splitStateScript(hexToBytes('0102bd76ac'));
+      expect(result.separatorIndex).toBe(2);
+      expect(bytesToHex(result.stateScript)).toBe('0102');
+      expect(bytesToHex(result.codeScript)).toBe('76ac');
+      expect(result.codeScriptHash).toEqual(hash256(hexToBytes('76ac')));
+    });
+
+    it('should skip 0xbd inside push data and reference operands', () => {
+      expect(findStateSeparator(hexToBytes('02bdbd76'))).toBe(-1);
+      expect(findStateSeparator(hexToBytes('4c01bdbd'))).toBe(3);
+      expect(findStateSeparator(hexToBytes('d0' + 'bd'.repeat(36) + 'bd'))).toBe(37);
+    });
+
+    it('should treat a script without separator as all code', () => {
+      const result = splitStateScript(hexToBytes('76ac'));
+      expect(result.separatorIndex).toBe(-1);
+      expect(result.stateScript).toEqual(new Uint8Array(0));
+      expect(bytesToHex(result.codeScript)).toBe('76ac');
+    });
+
+    it('should compute the known hash256 of an empty code script', () => {
+      expect(bytesToHex(splitStateScript(hexToBytes('51bd')).codeScriptHash))
+        .toBe('5df6e0e2761359d30a8275058e299fcc0381534545f55cf43e41983f5d4c9456');
+    });
+  });
+
+  describe('countOps / countSigChecks', () => {
+    const key = '02' + '11'.repeat(32);
+    const multisig = assembleScript(`OP_2 ${key} ${key} ${key} OP_3 OP_CHECKMULTISIG`);
+
+    it('should count opcodes above OP_16, including unexecuted branches', () => {
+      expect(countOps(assembleScript('OP_1 OP_16 OP_DUP 0102'))).toBe(1);
+      expect(countOps(assembleScript('OP_0 OP_IF OP_DUP OP_ELSE OP_DROP OP_ENDIF'))).toBe(5);
+      expect(countOps(assembleScript(`OP_PUSHINPUTREF ${REF_HEX} OP_DROP`))).toBe(2);
+    });
+
+    it('should count one check per CHECKSIG and CHECKDATASIG', () => {
+      expect(countSigChecks(assembleScript('OP_CHECKSIG OP_CHECKSIGVERIFY OP_CHECKDATASIG'), 0)).toBe(3);
+    });
+
+    it('should count legacy multisig per key and Schnorr multisig per signature', () => {
+      expect(countSigChecks(multisig, 0)).toBe(3);
+      expect(countSigChecks(multisig, ScriptFlags.SCRIPT_ENABLE_SCHNORR_MULTISIG)).toBe(2);
+    });
+
+    it('should assume the maximum when the key count is not a small integer', () => {
+      expect(countSigChecks(assembleScript('OP_CHECKMULTISIG'), 0)).toBe(20);
+    });
+  });
+});
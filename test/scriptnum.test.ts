@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getScriptNumMaxSize,
+  encodeScriptNum,
+  decodeScriptNum,
+  isMinimalScriptNum,
+  minimallyEncodeScriptNum,
+} from '../src/scriptnum';
+import { ScriptFlags } from '../src/flags';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+
+describe('Script numbers', () => {
+  describe('getScriptNumMaxSize', () => {
+    it('should select the limit from SCRIPT_64_BIT_INTEGERS', () => {
+      expect(getScriptNumMaxSize(0)).toBe(4);
+      expect(getScriptNumMaxSize(ScriptFlags.SCRIPT_64_BIT_INTEGERS)).toBe(8);
+    });
+  });
+
+  describe('encodeScriptNum', () => {
+    it('should encode zero as an empty vector', () => {
+      expect(encodeScriptNum(0)).toEqual(new Uint8Array(0));
+    });
+
+    it('should encode sign-magnitude little-endian values', () => {
+      expect(bytesToHex(encodeScriptNum(1))).toBe('01');
+      expect(bytesToHex(encodeScriptNum(-1))).toBe('81');
+      expect(bytesToHex(encodeScriptNum(127))).toBe('7f');
+      expect(bytesToHex(encodeScriptNum(128))).toBe('8000');
+      expect(bytesToHex(encodeScriptNum(-128))).toBe('8080');
+      expect(bytesToHex(encodeScriptNum(255))).toBe('ff00');
+      expect(bytesToHex(encodeScriptNum(256))).toBe('0001');
+      expect(bytesToHex(encodeScriptNum(-32768))).toBe('008080');
+    });
+
+    it('should enforce the 4-byte limit without SCRIPT_64_BIT_INTEGERS', () => {
+      expect(bytesToHex(encodeScriptNum(2147483647n, { flags: 0 }))).toBe('ffffff7f');
+      expect(() => encodeScriptNum(2147483648n, { flags: 0 })).toThrow('exceeds 4 bytes');
+    });
+
+    it('should enforce the 8-byte limit by default', () => {
+      expect(bytesToHex(encodeScriptNum(2n ** 63n - 1n))).toBe('ffffffffffffff7f');
+      expect(bytesToHex(encodeScriptNum(-(2n ** 63n) + 1n))).toBe('ffffffffffffffff');
+      expect(() => encodeScriptNum(-(2n ** 63n))).toThrow('exceeds 8 bytes');
+    });
+  });
+
+  describe('decodeScriptNum', () => {
+    it('should round-trip encoded values', () => {
+      for (const n of [0n, 1n, -1n, 127n, -127n, 128n, -128n, 65535n, -65536n, 2n ** 63n - 1n]) {
+        expect(decodeScriptNum(encodeScriptNum(n))).toBe(n);
+      }
+    });
+
+    it('should reject oversized encodings', () => {
+      expect(() => decodeScriptNum(hexToBytes('0000000001'), { flags: 0 })).toThrow('overflow');
+      expect(decodeScriptNum(hexToBytes('0000000001'), { flags: ScriptFlags.SCRIPT_64_BIT_INTEGERS })).toBe(2n ** 32n);
+    });
+
+    it('should reject non-minimal encodings when required', () => {
+      expect(() => decodeScriptNum(hexToBytes('0100'))).toThrow('Non-minimally');
+      expect(() => decodeScriptNum(hexToBytes('80'))).toThrow('Non-minimally');
+      expect(decodeScriptNum(hexToBytes('0100'), { requireMinimal: false })).toBe(1n);
+      expect(decodeScriptNum(hexToBytes('80'), { flags: 0 })).toBe(0n);
+      expect(() => decodeScriptNum(hexToBytes('0100'), { flags: ScriptFlags.SCRIPT_VERIFY_MINIMALDATA })).toThrow();
+    });
+  });
+
+  describe('isMinimalScriptNum', () => {
+    it('should accept sign bytes only when needed', () => {
+      expect(isMinimalScriptNum(new Uint8Array(0))).toBe(true);
+      expect(isMinimalScriptNum(hexToBytes('8000'))).toBe(true);
+      expect(isMinimalScriptNum(hexToBytes('8080'))).toBe(true);
+      expect(isMinimalScriptNum(hexToBytes('00'))).toBe(false);
+      expect(isMinimalScriptNum(hexToBytes('0180'))).toBe(false);
+    });
+  });
+
+  describe('minimallyEncodeScriptNum', () => {
+    it('should strip padding while preserving the sign', () => {
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('0100')))).toBe('01');
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('010080')))).toBe('81');
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('800000')))).toBe('8000');
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('800080')))).toBe('8080');
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('0000')))).toBe('');
+      expect(bytesToHex(minimallyEncodeScriptNum(hexToBytes('7f')))).toBe('7f');
+    });
+  });
+});
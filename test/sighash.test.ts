@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSighashType,
+  checkSighashType,
+  isValidSighashType,
+  formatSighashType,
+  parseSighashTypeString,
+  getOutputRefs,
+  getRefsHash,
+  getOutputDataSummary,
+  computeSighashPreimage,
+  computeSighash,
+} from '../src/sighash';
+import { ScriptFlags, SigHashType, DEFAULT_SIGHASH_TYPE, STANDARD_SCRIPT_VERIFY_FLAGS } from '../src/flags';
+import { ScriptError } from '../src/errors';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+import { hash256 } from '../src/crypto';
+import { parseTransaction } from '../src/transaction';
+import type { Transaction } from '../src/transaction';
+
+const { SIGHASH_ALL, SIGHASH_NONE, SIGHASH_SINGLE, SIGHASH_FORKID, SIGHASH_ANYONECANPAY } = SigHashType;
+
+const REF_A = '11'.repeat(36);
+const REF_B = '22'.repeat(36);
+const P2PKH = hexToBytes('76a914' + '33'.repeat(20) + '88ac');
+// OP_PUSHINPUTREFSINGLETON <B> OP_DROP OP_PUSHINPUTREF <A> OP_DROP <p2pkh>
+const REF_SCRIPT = hexToBytes('d8' + REF_B + '75' + 'd0' + REF_A + '75' + bytesToHex(P2PKH));
+const ZERO_HASH = '00'.repeat(32);
+
+function makeTx(): Transaction {
+  return {
+    version: 2,
+    inputs: [
+      { prevout: { txid: 'aa'.repeat(32), vout: 0 }, script: new Uint8Array(0), sequence: 0xffffffff },
+      { prevout: { txid: 'bb'.repeat(32), vout: 3 }, script: new Uint8Array(0), sequence: 0xfffffffe },
+    ],
+    outputs: [
+      { value: 1000n, script: REF_SCRIPT },
+      { value: 2000n, script: P2PKH },
+    ],
+    lockTime: 500,
+  };
+}
+
+/** Split a preimage (with a 25-byte script code) into its fields */
+function fields(preimage: Uint8Array) {
+  const hex = bytesToHex(preimage);
+  const at = (offset: number, length: number) => hex.slice(offset * 2, (offset + length) * 2);
+  return {
+    version: at(0, 4),
+    hashPrevouts: at(4, 32),
+    hashSequence: at(36, 32),
+    outpoint: at(68, 36),
+    scriptCode: at(104, 26),
+    amount: at(130, 8),
+    sequence: at(138, 4),
+    hashOutputHashes: at(142, 32),
+    hashOutputs: at(174, 32),
+    lockTime: at(206, 4),
+    sighashType: at(210, 4),
+  };
+}
+
+describe('Sighash', () => {
+  describe('sighash types', () => {
+    it('should parse the base type and modifiers', () => {
+      expect(parseSighashType(0xc3)).toEqual({ base: SIGHASH_SINGLE, anyoneCanPay: true, forkId: true });
+      expect(parseSighashType(0x01)).toEqual({ base: SIGHASH_ALL, anyoneCanPay: false, forkId: false });
+      expect(() => parseSighashType(0x100)).toThrow('must be a byte');
+    });
+
+    it('should apply STRICTENC and SIGHASH_FORKID rules', () => {
+      const flags = STANDARD_SCRIPT_VERIFY_FLAGS;
+      expect(isValidSighashType(DEFAULT_SIGHASH_TYPE, flags)).toBe(true);
+      expect(isValidSighashType(0xc2, flags)).toBe(true);
+      expect(checkSighashType(0x01, flags)).toBe(ScriptError.MUST_USE_FORKID);
+      expect(checkSighashType(0x44, flags)).toBe(ScriptError.SIG_HASHTYPE);
+      expect(checkSighashType(0x60, flags)).toBe(ScriptError.SIG_HASHTYPE);
+      expect(checkSighashType(0x41, ScriptFlags.SCRIPT_VERIFY_STRICTENC)).toBe(ScriptError.ILLEGAL_FORKID);
+      expect(checkSighashType(0x01, ScriptFlags.SCRIPT_VERIFY_STRICTENC)).toBe(ScriptError.OK);
+      expect(isValidSighashType(0x00, ScriptFlags.SCRIPT_VERIFY_NONE)).toBe(true);
+    });
+
+    it('should format sighash types', () => {
+      expect(formatSighashType(0x41)).toBe('ALL|FORKID');
+      expect(formatSighashType(0xc1)).toBe('ALL|FORKID|ANYONECANPAY');
+      expect(formatSighashType(0x82)).toBe('NONE|ANYONECANPAY');
+      expect(formatSighashType(0x43)).toBe('SINGLE|FORKID');
+      expect(formatSighashType(0x40)).toBe('0x00|FORKID');
+    });
+
+    it('should parse the string form back', () => {
+      expect(parseSighashTypeString('ALL|FORKID|ANYONECANPAY')).toBe(0xc1);
+      expect(parseSighashTypeString('sighash_anyonecanpay | SIGHASH_SINGLE|forkid')).toBe(0xc3);
+      expect(parseSighashTypeString('0x00|FORKID')).toBe(0x40);
+      for (let byte = 0; byte <= 0xff; byte++) {
+        expect(parseSighashTypeString(formatSighashType(byte))).toBe(byte);
+      }
+    });
+
+    it('should reject malformed strings', () => {
+      expect(() => parseSighashTypeString('FORKID')).toThrow('no base type');
+      expect(() => parseSighashTypeString('ALL|NONE')).toThrow('more than one base type');
+      expect(() => parseSighashTypeString('ALL|FORKID|FORKID')).toThrow('Repeated');
+      expect(() => parseSighashTypeString('ALL|SOMETIMES')).toThrow('Unknown sighash type component: "SOMETIMES"');
+      expect(() => parseSighashTypeString('0x41')).toThrow('overlaps');
+    });
+  });
+
+  describe('output summaries', () => {
+    it('should collect and sort carried refs', () => {
+      const refs = getOutputRefs(REF_SCRIPT);
+      expect([...refs.normal]).toEqual([REF_A]);
+      expect([...refs.singleton]).toEqual([REF_B]);
+      expect(refs.all).toEqual([REF_A, REF_B]);
+      expect(bytesToHex(getRefsHash(refs))).toBe(bytesToHex(hash256(hexToBytes(REF_A + REF_B))));
+      expect(bytesToHex(getRefsHash(getOutputRefs(P2PKH)))).toBe(ZERO_HASH);
+    });
+
+    it('should summarize value, script hash, ref count and refs hash', () => {
+      const summary = bytesToHex(getOutputDataSummary({ value: 1000n, script: REF_SCRIPT }));
+      expect(summary).toBe(
+        'e803000000000000' +
+        bytesToHex(hash256(REF_SCRIPT)) +
+        '02000000' +
+        bytesToHex(hash256(hexToBytes(REF_A + REF_B)))
+      );
+    });
+  });
+
+  describe('computeSighashPreimage', () => {
+    it('should lay out the ALL|FORKID preimage', () => {
+      const tx = makeTx();
+      const preimage = computeSighashPreimage(tx, 1, P2PKH, 5000n, DEFAULT_SIGHASH_TYPE);
+      expect(preimage.length).toBe(214);
+      const f = fields(preimage);
+      expect(f.version).toBe('02000000');
+      expect(f.hashPrevouts).toBe(bytesToHex(hash256(hexToBytes('aa'.repeat(32) + '00000000' + 'bb'.repeat(32) + '03000000'))));
+      expect(f.hashSequence).toBe(bytesToHex(hash256(hexToBytes('fffffffffeffffff'))));
+      expect(f.outpoint).toBe('bb'.repeat(32) + '03000000');
+      expect(f.scriptCode).toBe('19' + bytesToHex(P2PKH));
+      expect(f.amount).toBe('8813000000000000');
+      expect(f.sequence).toBe('feffffff');
+      const summaries = tx.outputs.map(output => bytesToHex(getOutputDataSummary(output))).join('');
+      expect(f.hashOutputHashes).toBe(bytesToHex(hash256(hexToBytes(summaries))));
+      const outputs = 'e803000000000000' + '65' + bytesToHex(REF_SCRIPT) + 'd007000000000000' + '19' + bytesToHex(P2PKH);
+      expect(f.hashOutputs).toBe(bytesToHex(hash256(hexToBytes(outputs))));
+      expect(f.lockTime).toBe('f4010000');
+      expect(f.sighashType).toBe('41000000');
+    });
+
+    it('should zero prevouts and sequences for ANYONECANPAY', () => {
+      const type = SIGHASH_ALL | SIGHASH_FORKID | SIGHASH_ANYONECANPAY;
+      const f = fields(computeSighashPreimage(makeTx(), 0, P2PKH, 1n, type));
+      expect(f.hashPrevouts).toBe(ZERO_HASH);
+      expect(f.hashSequence).toBe(ZERO_HASH);
+      expect(f.hashOutputs).not.toBe(ZERO_HASH);
+      expect(f.sighashType).toBe('c1000000');
+    });
+
+    it('should commit to no outputs for NONE', () => {
+      const f = fields(computeSighashPreimage(makeTx(), 0, P2PKH, 1n, SIGHASH_NONE | SIGHASH_FORKID));
+      expect(f.hashPrevouts).not.toBe(ZERO_HASH);
+      expect(f.hashSequence).toBe(ZERO_HASH);
+      expect(f.hashOutputHashes).toBe(ZERO_HASH);
+      expect(f.hashOutputs).toBe(ZERO_HASH);
+    });
+
+    it('should commit to the matching output for SINGLE', () => {
+      const tx = makeTx();
+      const type = SIGHASH_SINGLE | SIGHASH_FORKID;
+      const f = fields(computeSighashPreimage(tx, 0, P2PKH, 1n, type));
+      expect(f.hashSequence).toBe(ZERO_HASH);
+      expect(f.hashOutputHashes).toBe(bytesToHex(hash256(getOutputDataSummary(tx.outputs[0]))));
+      expect(f.hashOutputs).toBe(bytesToHex(hash256(hexToBytes('e803000000000000' + '65' + bytesToHex(REF_SCRIPT)))));
+
+      tx.outputs = tx.outputs.slice(0, 1);
+      const missing = fields(computeSighashPreimage(tx, 1, P2PKH, 1n, type));
+      expect(missing.hashOutputHashes).toBe(ZERO_HASH);
+      expect(missing.hashOutputs).toBe(ZERO_HASH);
+    });
+
+    it('should change when an output ref changes', () => {
+      const tx = makeTx();
+      const before = fields(computeSighashPreimage(tx, 0, P2PKH, 1n, DEFAULT_SIGHASH_TYPE));
+      tx.outputs[0] = { ...tx.outputs[0], script: hexToBytes(bytesToHex(REF_SCRIPT).replace(REF_A, '44'.repeat(36))) };
+      const after = fields(computeSighashPreimage(tx, 0, P2PKH, 1n, DEFAULT_SIGHASH_TYPE));
+      expect(after.hashOutputHashes).not.toBe(before.hashOutputHashes);
+    });
+
+    it('should match the BIP143 native P2WPKH example outside hashOutputHashes', () => {
+      // Unsigned transaction, script code and amount of input 1, from BIP143
+      const tx = parseTransaction(hexToBytes(
+        '0100000002fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f0000000000eeffffff' +
+        'ef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206' +
+        '000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42db' +
+        'ee7e4dbe6a21b2d50ce2f0167faa815988ac11000000'
+      ));
+      const scriptCode = hexToBytes('76a9141d0f172a0ecb48aee1be1f2687d2963ae33f71a188ac');
+      const preimage = computeSighashPreimage(tx, 1, scriptCode, 600000000n, DEFAULT_SIGHASH_TYPE);
+      const f = fields(preimage);
+      expect(f.hashPrevouts).toBe('96b827c8483d4e9b96712b6713a7b68d6e8003a781feba36c31143470b4efd37');
+      expect(f.hashSequence).toBe('52b0a642eea2fb7ae638c36f6252b6750293dbe574a806984b8e4d8548339a3b');
+      expect(f.hashOutputs).toBe('863ef3e1a92afbfdb97f31ad0fc7683ee943e9abcf2501590ff8f6551f47e5e5');
+
+      // Without hashOutputHashes and with SIGHASH_ALL, the preimage is the BIP143 one
+      const bip143 = hexToBytes(
+        bytesToHex(preimage.slice(0, 142)) + f.hashOutputs + f.lockTime + '01000000'
+      );
+      expect(bytesToHex(hash256(bip143))).toBe('c37af31116d1b27caf68aae9e3ac82f1477929014d5b917657d0eb49478cb670');
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => computeSighashPreimage(makeTx(), 0, P2PKH, 1n, SIGHASH_ALL)).toThrow('SIGHASH_FORKID');
+      expect(() => computeSighashPreimage(makeTx(), 2, P2PKH, 1n, DEFAULT_SIGHASH_TYPE)).toThrow('out of range');
+      expect(() => computeSighashPreimage(makeTx(), 0, P2PKH, -1n, DEFAULT_SIGHASH_TYPE)).toThrow('Invalid amount');
+    });
+  });
+
+  describe('computeSighash', () => {
+    it('should be the double SHA-256 of the preimage', () => {
+      const preimage = computeSighashPreimage(makeTx(), 0, P2PKH, 1n, DEFAULT_SIGHASH_TYPE);
+      expect(bytesToHex(computeSighash(makeTx(), 0, P2PKH, 1n, DEFAULT_SIGHASH_TYPE))).toBe(bytesToHex(hash256(preimage)));
+    });
+  });
+});
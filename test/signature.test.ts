@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidDerSignature,
+  isLowDerSignature,
+  checkSignatureEncoding,
+  checkDataSignatureEncoding,
+  checkPubKeyEncoding,
+  verifySignature,
+} from '../src/signature';
+import { ScriptFlags, STANDARD_SCRIPT_VERIFY_FLAGS, DEFAULT_SIGHASH_TYPE } from '../src/flags';
+import { ScriptError } from '../src/errors';
+import { SECP256K1_ORDER, getPublicKey } from '../src/keys';
+import { sha256 } from '../src/crypto';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/** Minimal big-endian DER integer */
+function derInt(value: bigint): string {
+  let hex = value.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  if (parseInt(hex.slice(0, 2), 16) & 0x80) hex = '00' + hex;
+  return '02' + (hex.length / 2).toString(16).padStart(2, '0') + hex;
+}
+
+function der(r: bigint, s: bigint): Uint8Array {
+  const body = derInt(r) + derInt(s);
+  return hexToBytes('30' + (body.length / 2).toString(16).padStart(2, '0') + body);
+}
+
+function withHashType(sig: Uint8Array, hashType = DEFAULT_SIGHASH_TYPE): Uint8Array {
+  return hexToBytes(bytesToHex(sig) + hashType.toString(16).padStart(2, '0'));
+}
+
+const R = 0x7b3f1e4c2a9d8e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2fn;
+const LOW_S = 0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdefn;
+const HIGH_S = SECP256K1_ORDER - LOW_S;
+const FLAGS = STANDARD_SCRIPT_VERIFY_FLAGS;
+const COMPRESSED = hexToBytes('02' + '11'.repeat(32));
+const UNCOMPRESSED = hexToBytes('04' + '11'.repeat(64));
+
+const PRIVATE_KEY = hexToBytes('01'.repeat(32));
+const DIGEST = sha256(new TextEncoder().encode('radiant'));
+
+function toBytes32(value: bigint): Uint8Array {
+  return hexToBytes(value.toString(16).padStart(64, '0'));
+}
+
+/** Bitcoin Cash Schnorr signing, with a nonce derived from the key and digest */
+function signSchnorr(digest: Uint8Array, privateKey: Uint8Array): Uint8Array {
+  const { Fp } = secp256k1.CURVE;
+  const d = BigInt('0x' + bytesToHex(privateKey));
+  let k = BigInt('0x' + bytesToHex(sha256(new Uint8Array([...privateKey, ...digest])))) % SECP256K1_ORDER;
+  const R = secp256k1.ProjectivePoint.BASE.multiply(k).toAffine();
+  if (Fp.pow(R.y, (Fp.ORDER - 1n) >> 1n) !== 1n) k = SECP256K1_ORDER - k;
+  const r = toBytes32(R.x);
+  const e = BigInt('0x' + bytesToHex(sha256(new Uint8Array([...r, ...getPublicKey(privateKey), ...digest]))));
+  return new Uint8Array([...r, ...toBytes32((k + (e % SECP256K1_ORDER) * d) % SECP256K1_ORDER)]);
+}
+
+describe('Signature encoding', () => {
+  describe('isValidDerSignature', () => {
+    it('should accept strict DER', () => {
+      expect(isValidDerSignature(der(R, LOW_S))).toBe(true);
+      expect(isValidDerSignature(der(1n, 1n))).toBe(true);
+    });
+
+    it('should reject malformed DER', () => {
+      const sig = der(R, LOW_S);
+      expect(isValidDerSignature(sig.slice(0, -1))).toBe(false);
+      const badLength = sig.slice();
+      badLength[1]++;
+      expect(isValidDerSignature(badLength)).toBe(false);
+      // Negative R and non-minimal padding
+      expect(isValidDerSignature(hexToBytes('3006020180020101'))).toBe(false);
+      expect(isValidDerSignature(hexToBytes('300702020001020101'))).toBe(false);
+    });
+  });
+
+  describe('isLowDerSignature', () => {
+    it('should compare S with half the order', () => {
+      expect(isLowDerSignature(der(R, LOW_S))).toBe(true);
+      expect(isLowDerSignature(der(R, HIGH_S))).toBe(false);
+      expect(isLowDerSignature(der(R, SECP256K1_ORDER >> 1n))).toBe(true);
+      expect(isLowDerSignature(der(R, (SECP256K1_ORDER >> 1n) + 1n))).toBe(false);
+    });
+  });
+
+  describe('checkSignatureEncoding', () => {
+    it('should accept a low-S DER signature with ALL|FORKID', () => {
+      expect(checkSignatureEncoding(withHashType(der(R, LOW_S)), FLAGS)).toBe(ScriptError.OK);
+      expect(checkSignatureEncoding(new Uint8Array(0), FLAGS)).toBe(ScriptError.OK);
+    });
+
+    it('should exempt 64-byte Schnorr signatures from DER rules', () => {
+      const schnorr = withHashType(new Uint8Array(64).fill(0xff));
+      expect(checkSignatureEncoding(schnorr, FLAGS)).toBe(ScriptError.OK);
+      expect(checkSignatureEncoding(withHashType(new Uint8Array(64), 0x01), FLAGS)).toBe(ScriptError.MUST_USE_FORKID);
+    });
+
+    it('should report the specific failure', () => {
+      expect(checkSignatureEncoding(withHashType(new Uint8Array(63)), FLAGS)).toBe(ScriptError.SIG_DER);
+      expect(checkSignatureEncoding(withHashType(der(R, HIGH_S)), FLAGS)).toBe(ScriptError.SIG_HIGH_S);
+      expect(checkSignatureEncoding(withHashType(der(R, LOW_S), 0x44), FLAGS)).toBe(ScriptError.SIG_HASHTYPE);
+      expect(checkSignatureEncoding(withHashType(der(R, LOW_S), 0x01), FLAGS)).toBe(ScriptError.MUST_USE_FORKID);
+    });
+
+    it('should only apply the rules whose flags are set', () => {
+      const highS = withHashType(der(R, HIGH_S));
+      expect(checkSignatureEncoding(highS, ScriptFlags.SCRIPT_VERIFY_DERSIG)).toBe(ScriptError.OK);
+      expect(checkSignatureEncoding(highS, ScriptFlags.SCRIPT_VERIFY_LOW_S)).toBe(ScriptError.SIG_HIGH_S);
+      expect(checkSignatureEncoding(withHashType(new Uint8Array(10)), ScriptFlags.SCRIPT_VERIFY_NONE)).toBe(ScriptError.OK);
+    });
+  });
+
+  describe('checkDataSignatureEncoding', () => {
+    it('should check signatures without a sighash byte', () => {
+      expect(checkDataSignatureEncoding(der(R, LOW_S), FLAGS)).toBe(ScriptError.OK);
+      expect(checkDataSignatureEncoding(new Uint8Array(64), FLAGS)).toBe(ScriptError.OK);
+      expect(checkDataSignatureEncoding(der(R, HIGH_S), FLAGS)).toBe(ScriptError.SIG_HIGH_S);
+    });
+  });
+
+  describe('checkPubKeyEncoding', () => {
+    it('should accept compressed and uncompressed keys under STRICTENC', () => {
+      expect(checkPubKeyEncoding(COMPRESSED, FLAGS)).toBe(ScriptError.OK);
+      expect(checkPubKeyEncoding(UNCOMPRESSED, FLAGS)).toBe(ScriptError.OK);
+    });
+
+    it('should reject other encodings under STRICTENC only', () => {
+      const hybrid = hexToBytes('06' + '11'.repeat(64));
+      expect(checkPubKeyEncoding(hybrid, FLAGS)).toBe(ScriptError.PUBKEYTYPE);
+      expect(checkPubKeyEncoding(COMPRESSED.slice(0, 32), FLAGS)).toBe(ScriptError.PUBKEYTYPE);
+      expect(checkPubKeyEncoding(hybrid, ScriptFlags.SCRIPT_VERIFY_NONE)).toBe(ScriptError.OK);
+    });
+  });
+
+  describe('verifySignature', () => {
+    const pubKey = getPublicKey(PRIVATE_KEY);
+    const otherDigest = sha256(DIGEST);
+
+    it('should verify DER-encoded ECDSA signatures', () => {
+      const sig = secp256k1.sign(DIGEST, PRIVATE_KEY).toDERRawBytes();
+      expect(verifySignature(sig, DIGEST, pubKey)).toBe(true);
+      expect(verifySignature(sig, DIGEST, getPublicKey(PRIVATE_KEY, false))).toBe(true);
+      expect(verifySignature(sig, otherDigest, pubKey)).toBe(false);
+    });
+
+    it('should verify high-S ECDSA signatures', () => {
+      const sig = secp256k1.sign(DIGEST, PRIVATE_KEY);
+      const highS = new secp256k1.Signature(sig.r, SECP256K1_ORDER - sig.s).toDERRawBytes();
+      expect(isLowDerSignature(highS)).toBe(false);
+      expect(verifySignature(highS, DIGEST, pubKey)).toBe(true);
+    });
+
+    it('should verify Bitcoin Cash Schnorr signatures', () => {
+      const sig = signSchnorr(DIGEST, PRIVATE_KEY);
+      expect(sig.length).toBe(64);
+      expect(verifySignature(sig, DIGEST, pubKey)).toBe(true);
+      expect(verifySignature(sig, DIGEST, getPublicKey(PRIVATE_KEY, false))).toBe(true);
+      expect(verifySignature(sig, otherDigest, pubKey)).toBe(false);
+      expect(verifySignature(signSchnorr(DIGEST, hexToBytes('02'.repeat(32))), DIGEST, pubKey)).toBe(false);
+    });
+
+    it('should reject malformed signatures and keys', () => {
+      const sig = signSchnorr(DIGEST, PRIVATE_KEY);
+      const tampered = sig.slice();
+      tampered[63] ^= 1;
+      expect(verifySignature(tampered, DIGEST, pubKey)).toBe(false);
+      expect(verifySignature(new Uint8Array([...sig.subarray(0, 32), ...toBytes32(SECP256K1_ORDER)]), DIGEST, pubKey))
+        .toBe(false);
+      expect(verifySignature(new Uint8Array(64).fill(0xff), DIGEST, pubKey)).toBe(false);
+      expect(verifySignature(sig, DIGEST, hexToBytes('02' + '00'.repeat(32)))).toBe(false);
+      expect(verifySignature(new Uint8Array(10), DIGEST, pubKey)).toBe(false);
+    });
+  });
+});
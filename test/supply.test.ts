@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_BLOCK_SUBSIDY,
+  getBlockSubsidy,
+  halvingSchedule,
+  getSupplyAtHeight,
+  getTotalSupply,
+  validateSupply,
+} from '../src/supply';
+import { Limits } from '../src/limits';
+import { mainnet, regtest } from '../src/networks';
+
+const COIN = BigInt(Limits.COIN);
+
+describe('Supply', () => {
+  describe('getBlockSubsidy', () => {
+    it('should halve every interval', () => {
+      expect(getBlockSubsidy(0)).toBe(50_000n * COIN);
+      expect(getBlockSubsidy(209_999)).toBe(50_000n * COIN);
+      expect(getBlockSubsidy(210_000)).toBe(25_000n * COIN);
+      expect(getBlockSubsidy(420_000)).toBe(12_500n * COIN);
+      expect(getBlockSubsidy(150, regtest)).toBe(25_000n * COIN);
+    });
+
+    it('should drop fractions of a photon and reach zero', () => {
+      // 5e12 >> 13 = 610351562.5
+      expect(getBlockSubsidy(13 * 210_000)).toBe(610_351_562n);
+      expect(getBlockSubsidy(64 * 210_000)).toBe(0n);
+    });
+
+    it('should reject invalid heights', () => {
+      expect(() => getBlockSubsidy(-1)).toThrow('Invalid block height: -1');
+    });
+  });
+
+  describe('halvingSchedule', () => {
+    it('should list eras until the subsidy is zero', () => {
+      const eras = [...halvingSchedule()];
+      expect(eras[0]).toEqual({
+        era: 0,
+        startHeight: 0,
+        endHeight: 209_999,
+        subsidy: INITIAL_BLOCK_SUBSIDY,
+        supplyAtEnd: INITIAL_BLOCK_SUBSIDY * 210_000n,
+      });
+      expect(eras[eras.length - 1].subsidy).toBe(1n);
+      expect(eras[eras.length - 1].supplyAtEnd).toBe(getTotalSupply());
+    });
+  });
+
+  describe('getSupplyAtHeight', () => {
+    it('should sum subsidies through the height', () => {
+      expect(getSupplyAtHeight(0)).toBe(INITIAL_BLOCK_SUBSIDY);
+      expect(getSupplyAtHeight(210_000)).toBe(INITIAL_BLOCK_SUBSIDY * 210_000n + 25_000n * COIN);
+      expect(getSupplyAtHeight(Number.MAX_SAFE_INTEGER)).toBe(getTotalSupply());
+    });
+
+    it('should agree with summing getBlockSubsidy', () => {
+      let supply = 0n;
+      for (let height = 0; height < 1000; height++) supply += getBlockSubsidy(height, regtest);
+      expect(getSupplyAtHeight(999, regtest)).toBe(supply);
+    });
+  });
+
+  describe('validateSupply', () => {
+    it('should match MAX_MONEY on mainnet', () => {
+      expect(getTotalSupply(mainnet)).toBeLessThanOrEqual(Limits.MAX_MONEY);
+      expect(validateSupply(mainnet)).toEqual({ valid: true });
+    });
+
+    it('should flag a schedule that does not reach MAX_MONEY', () => {
+      const result = validateSupply(regtest);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('falls short of MAX_MONEY');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { classifyScript } from '../src/templates';
+import { hexToBytes } from '../src/encoding';
+
+const PKH = '11'.repeat(20);
+const REF = 'aa'.repeat(32) + '01000000';
+const PUBKEY = '02' + '22'.repeat(32);
+const P2PKH = `76a914${PKH}88ac`;
+
+describe('Output templates', () => {
+  it('should classify P2PKH', () => {
+    expect(classifyScript(hexToBytes(P2PKH))).toEqual({ type: 'p2pkh', pubKeyHash: hexToBytes(PKH) });
+  });
+
+  it('should classify P2SH', () => {
+    expect(classifyScript(hexToBytes(`a914${PKH}87`))).toEqual({ type: 'p2sh', scriptHash: hexToBytes(PKH) });
+  });
+
+  it('should classify P2PK', () => {
+    expect(classifyScript(hexToBytes(`21${PUBKEY}ac`))).toEqual({ type: 'p2pk', pubKey: hexToBytes(PUBKEY) });
+  });
+
+  it('should classify bare multisig', () => {
+    const result = classifyScript(hexToBytes(`5121${PUBKEY}21${PUBKEY}52ae`));
+    expect(result).toEqual({ type: 'multisig', required: 1, pubKeys: [hexToBytes(PUBKEY), hexToBytes(PUBKEY)] });
+  });
+
+  it('should reject multisig with mismatched key count', () => {
+    expect(classifyScript(hexToBytes(`5121${PUBKEY}52ae`)).type).toBe('nonstandard');
+    expect(classifyScript(hexToBytes(`5321${PUBKEY}21${PUBKEY}52ae`)).type).toBe('nonstandard');
+  });
+
+  it('should classify OP_RETURN and OP_FALSE OP_RETURN data', () => {
+    expect(classifyScript(hexToBytes('6a03676c7900'))).toEqual({
+      type: 'nulldata',
+      data: [hexToBytes('676c79'), new Uint8Array(0)],
+    });
+    expect(classifyScript(hexToBytes('006a02abcd'))).toEqual({ type: 'nulldata', data: [hexToBytes('abcd')] });
+    expect(classifyScript(hexToBytes('6a76')).type).toBe('nonstandard');
+  });
+
+  it('should classify Glyph NFT outputs', () => {
+    expect(classifyScript(hexToBytes(`d8${REF}75${P2PKH}`))).toEqual({
+      type: 'glyph-nft',
+      ref: hexToBytes(REF),
+      pubKeyHash: hexToBytes(PKH),
+    });
+  });
+
+  it('should classify Glyph FT outputs', () => {
+    expect(classifyScript(hexToBytes(`${P2PKH}bdd0${REF}dec0e9aa76e378e4a269e69d`))).toEqual({
+      type: 'glyph-ft',
+      ref: hexToBytes(REF),
+      pubKeyHash: hexToBytes(PKH),
+    });
+  });
+
+  it('should list pushed refs of nonstandard scripts', () => {
+    const other = 'bb'.repeat(36);
+    expect(classifyScript(hexToBytes(`d0${REF}d1${other}d8${other}75`))).toEqual({
+      type: 'nonstandard',
+      refs: [hexToBytes(REF), hexToBytes(other)],
+    });
+  });
+
+  it('should treat empty and truncated scripts as nonstandard', () => {
+    expect(classifyScript(new Uint8Array(0))).toEqual({ type: 'nonstandard', refs: [] });
+    expect(classifyScript(hexToBytes('76a914'))).toEqual({ type: 'nonstandard', refs: [] });
+  });
+});
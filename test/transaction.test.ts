@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SEQUENCE_FINAL,
+  getVarIntSize,
+  encodeVarInt,
+  decodeVarInt,
+  serializeTransaction,
+  parseTransaction,
+  getTxid,
+  getTransactionSize,
+  validateTransaction,
+} from '../src/transaction';
+import type { Transaction } from '../src/transaction';
+import { Limits } from '../src/limits';
+import { bytesToHex, hexToBytes } from '../src/encoding';
+
+// Bitcoin genesis coinbase; Radiant uses the same transaction format and txid hash
+const GENESIS_COINBASE_HEX =
+  '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d01044554' +
+  '68652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e6420' +
+  '6261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6' +
+  'a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+const GENESIS_COINBASE_TXID = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+const P2PKH = hexToBytes('76a914' + '11'.repeat(20) + '88ac');
+
+function makeTx(): Transaction {
+  return {
+    version: 2,
+    inputs: [
+      { prevout: { txid: 'ab'.repeat(32), vout: 1 }, script: new Uint8Array(107).fill(1), sequence: SEQUENCE_FINAL },
+    ],
+    outputs: [
+      { value: 50_000n, script: P2PKH },
+      { value: 0n, script: hexToBytes('006a0568656c6c6f') },
+    ],
+    lockTime: 0,
+  };
+}
+
+describe('Transaction', () => {
+  describe('varints', () => {
+    it('should encode each width', () => {
+      expect(bytesToHex(encodeVarInt(0xfc))).toBe('fc');
+      expect(bytesToHex(encodeVarInt(0xfd))).toBe('fdfd00');
+      expect(bytesToHex(encodeVarInt(0x10000))).toBe('fe00000100');
+      expect(bytesToHex(encodeVarInt(0x100000000))).toBe('ff0000000001000000');
+      expect([0xfc, 0xfd, 0x10000, 0x100000000].map(getVarIntSize)).toEqual([1, 3, 5, 9]);
+    });
+
+    it('should decode and reject non-canonical encodings', () => {
+      expect(decodeVarInt(hexToBytes('00fdfd00'), 1)).toEqual({ value: 0xfd, size: 3 });
+      expect(() => decodeVarInt(hexToBytes('fdfc00'))).toThrow('Non-canonical varint');
+      expect(() => decodeVarInt(hexToBytes('fe'))).toThrow('Unexpected end of data');
+      expect(() => encodeVarInt(-1)).toThrow('Invalid varint value');
+    });
+  });
+
+  describe('parseTransaction / serializeTransaction', () => {
+    it('should parse a raw transaction and compute its txid', () => {
+      const bytes = hexToBytes(GENESIS_COINBASE_HEX);
+      const tx = parseTransaction(bytes);
+      expect(tx.version).toBe(1);
+      expect(tx.inputs[0].prevout).toEqual({ txid: '00'.repeat(32), vout: 0xffffffff });
+      expect(tx.inputs[0].script.length).toBe(77);
+      expect(tx.outputs[0].value).toBe(5_000_000_000n);
+      expect(bytesToHex(serializeTransaction(tx))).toBe(GENESIS_COINBASE_HEX);
+      expect(getTxid(tx)).toBe(GENESIS_COINBASE_TXID);
+      expect(getTxid(bytes)).toBe(GENESIS_COINBASE_TXID);
+    });
+
+    it('should round-trip', () => {
+      const tx = makeTx();
+      const bytes = serializeTransaction(tx);
+      expect(parseTransaction(bytes)).toEqual(tx);
+      expect(getTransactionSize(tx)).toBe(bytes.length);
+    });
+
+    it('should reject truncated data and trailing bytes', () => {
+      const bytes = serializeTransaction(makeTx());
+      expect(() => parseTransaction(bytes.slice(0, -1))).toThrow('Unexpected end of data');
+      const padded = new Uint8Array(bytes.length + 1);
+      padded.set(bytes);
+      expect(() => parseTransaction(padded)).toThrow('1 trailing bytes');
+    });
+
+    it('should reject out-of-range fields', () => {
+      expect(() => serializeTransaction({ ...makeTx(), lockTime: -1 })).toThrow('Invalid transaction lockTime');
+      const outputs = [{ value: -1n, script: P2PKH }];
+      expect(() => serializeTransaction({ ...makeTx(), outputs })).toThrow('Invalid transaction output value');
+    });
+  });
+
+  describe('validateTransaction', () => {
+    it('should accept a well-formed transaction', () => {
+      expect(validateTransaction(makeTx())).toEqual({ valid: true });
+    });
+
+    it('should enforce MIN_TX_SIZE', () => {
+      const tx = { ...makeTx(), inputs: [{ ...makeTx().inputs[0], script: new Uint8Array(0) }] };
+      tx.outputs = tx.outputs.slice(0, 1);
+      expect(getTransactionSize(tx)).toBeLessThan(Limits.MIN_TX_SIZE);
+      expect(validateTransaction(tx).error).toContain('below MIN_TX_SIZE');
+    });
+
+    it('should reject empty, overspending and duplicate-input transactions', () => {
+      expect(validateTransaction({ ...makeTx(), inputs: [] }).error).toBe('Transaction has no inputs');
+      const outputs = [{ value: Limits.MAX_MONEY, script: P2PKH }, { value: 1n, script: P2PKH }];
+      expect(validateTransaction({ ...makeTx(), outputs }).error).toContain('exceeds MAX_MONEY');
+      const input = makeTx().inputs[0];
+      expect(validateTransaction({ ...makeTx(), inputs: [input, input] }).error).toContain('Duplicate input');
+    });
+  });
+});